@@ -0,0 +1,81 @@
+export type BatchResult<T, R> = {
+  item: T;
+  attempts: number;
+  ok: boolean;
+  result?: R;
+  error?: string;
+};
+
+export type BatchOpts = {
+  concurrency: number;
+  retries: number;
+  onProgress?: (done: number, total: number) => void;
+};
+
+/**
+ * Run `fn` for every item with at most `concurrency` calls in flight.
+ * Failures that may be transient (network errors, rate limiting, and server
+ * errors) are retried up to `retries` times with exponential backoff.
+ * Results are returned in the same order as `items` and failures are reported
+ * rather than thrown.
+ */
+export async function runBatch<T, R>(
+  items: Array<T>,
+  fn: (item: T) => Promise<R>,
+  opts: BatchOpts,
+): Promise<Array<BatchResult<T, R>>> {
+  const results: Array<BatchResult<T, R>> = new Array(items.length);
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await runWithRetries(items[i], fn, opts.retries);
+      opts.onProgress?.(++done, items.length);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(opts.concurrency, items.length) }, worker),
+  );
+
+  return results;
+}
+
+async function runWithRetries<T, R>(
+  item: T,
+  fn: (item: T) => Promise<R>,
+  retries: number,
+): Promise<BatchResult<T, R>> {
+  for (let attempt = 1; ; ++attempt) {
+    try {
+      return { item, attempts: attempt, ok: true, result: await fn(item) };
+    } catch (err) {
+      if (attempt > retries || !isRetryable(err)) {
+        return { item, attempts: attempt, ok: false, error: err?.message };
+      }
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, 250 * 2 ** (attempt - 1)),
+      );
+    }
+  }
+}
+
+function isRetryable(err: any) {
+  const status = err?.status;
+  return typeof status !== "number" || status === 429 || status >= 500;
+}
+
+export function writeProgress(label: string) {
+  return (done: number, total: number) => {
+    if (process.stderr.isTTY) {
+      process.stderr.write(
+        `\r${label} ${done}/${total}${done === total ? "\n" : ""}`,
+      );
+    } else if (done === total || done % 100 === 0) {
+      console.error(`${label} ${done}/${total}`);
+    }
+  };
+}
@@ -17,6 +17,93 @@ export async function build(inputFile: string, inputType: "node" | "deno") {
   };
 }
 
+/**
+ * Watch the entrypoint and everything it imports, calling `onBuild` with the
+ * same output as `build` after the initial build and every successful rebuild.
+ * Calls to `onBuild` never overlap.
+ */
+export async function watch(
+  inputFile: string,
+  inputType: "node" | "deno",
+  onBuild: (code: Awaited<ReturnType<typeof build>>) => Promise<void>,
+) {
+  let pending = Promise.resolve();
+  const options = buildOptions(inputFile, inputType, true);
+
+  // the watching context produces the externalized code and we rebuild the
+  // fully bundled code from a second context whenever it changes
+  const bundledCtx = await esbuild.context({
+    ...buildOptions(inputFile, inputType, false),
+    write: false,
+  });
+
+  const ctx = await esbuild.context({
+    ...options,
+    write: false,
+    plugins: [
+      ...(options.plugins ?? []),
+      {
+        name: "smply-watch",
+        setup(b) {
+          b.onEnd((res) => {
+            const code = res.outputFiles?.[0]?.text;
+            if (res.errors.length > 0 || !code) {
+              console.error(`failed to build '${inputFile}'.`);
+              return;
+            }
+
+            pending = pending
+              .then(async () => {
+                const bundled = await bundledCtx.rebuild();
+                await onBuild({
+                  fileName: path.basename(inputFile),
+                  code,
+                  bundled: bundled.outputFiles[0].text,
+                });
+              })
+              .catch((err) => {
+                console.error(err?.message ?? err);
+              });
+          });
+        },
+      },
+    ],
+  });
+
+  await ctx.watch();
+
+  return ctx;
+}
+
+function buildOptions(
+  inputFile: string,
+  inputType: "node" | "deno",
+  externalizeXState: boolean,
+): esbuild.BuildOptions {
+  return {
+    entryPoints: [inputFile],
+    bundle: true,
+    platform: "browser",
+    format: "esm",
+    minify: true,
+    keepNames: true,
+    legalComments: "none",
+    define: {
+      "process.env.NODE_ENV": '"production"',
+    },
+    drop: ["debugger"],
+    plugins: inputType === "deno" ? [denoPlugin()] : [],
+    ...(externalizeXState
+      ? {
+          external: ["npm:xstate"],
+          alias: {
+            xstate: "npm:xstate",
+          },
+        }
+      : {}),
+  };
+}
+
 async function _build(
   inputFile: string,
   inputType: "node" | "deno",
@@ -26,27 +113,8 @@ async function _build(
   const outFile = path.join(outDir, "machine.js");
   try {
     const res = await esbuild.build({
-      entryPoints: [inputFile],
-      bundle: true,
+      ...buildOptions(inputFile, inputType, externalizeXState),
       outfile: outFile,
-      platform: "browser",
-      format: "esm",
-      minify: true,
-      keepNames: true,
-      legalComments: "none",
-      define: {
-        "process.env.NODE_ENV": '"production"',
-      },
-      drop: ["debugger"],
-      plugins: inputType === "deno" ? [denoPlugin()] : [],
-      ...(externalizeXState
-        ? {
-            external: ["npm:xstate"],
-            alias: {
-              xstate: "npm:xstate",
-            },
-          }
-        : {}),
     });
 
     const code = await fs.readFile(outFile, { encoding: "utf8" });
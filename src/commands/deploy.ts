@@ -0,0 +1,379 @@
+import { Command, InvalidArgumentError } from "commander";
+import { StateBackedClient } from "@statebacked/client";
+import {
+  buildFromCommand,
+  getStatebackedClient,
+  gzip,
+  writeObj,
+} from "../utils.js";
+import { getAllItems } from "../paginator.js";
+import {
+  Manifest,
+  MachineManifest,
+  MigrationManifest,
+  compareFingerprints,
+  defaultManifestFile,
+  findVersionPath,
+  loadManifest,
+  manifestMigrationEdges,
+  parseClientInfo,
+  resolveVersionReference,
+  versionFingerprint,
+} from "../manifest.js";
+import { getGitInfo, gitProvenance } from "../git.js";
+import { publishMachineVersion } from "./machine-versions.js";
+
+export function addDeployCommands(cmd: Command) {
+  cmd
+    .command("deploy")
+    .description(
+      `Create or update every machine described in a project manifest. Missing machines are created, a new current version is published for each machine whose bundle or index selectors changed, and the manifest's migrations into each newly published version are uploaded.`,
+    )
+    .option(
+      "-f, --file <file>",
+      "Path to the project manifest",
+      defaultManifestFile,
+    )
+    .option(
+      "-m, --machine <machine...>",
+      "Only deploy these machines from the manifest. If specified multiple times, each machine will be deployed.",
+    )
+    .option("-s, --skip-validation", "Don't validate the bundles", false)
+    .option(
+      "--allow-dirty",
+      "Publish machines built from a git repository with uncommitted changes",
+      false,
+    )
+    .action(deploy);
+
+  cmd
+    .command("plan")
+    .description(
+      "Show what 'smply deploy' would change without changing anything: new machines, new versions, index selector changes, and versions with running instances that the manifest's migrations do not upgrade to the new version. Writes the plan in the --output format and a summary to stderr.",
+    )
+    .option(
+      "-f, --file <file>",
+      "Path to the project manifest",
+      defaultManifestFile,
+    )
+    .option(
+      "-m, --machine <machine...>",
+      "Only plan these machines from the manifest. If specified multiple times, each machine will be planned.",
+    )
+    .action(plan);
+}
+
+type DeployOpts = {
+  file: string;
+  machine?: Array<string>;
+  skipValidation: boolean;
+  allowDirty: boolean;
+};
+
+type PlanOpts = {
+  file: string;
+  machine?: Array<string>;
+};
+
+type DeployedMachine = Awaited<
+  ReturnType<StateBackedClient["machines"]["list"]>
+>["machines"][number];
+
+export function selectMachines(
+  manifest: Manifest,
+  only: Array<string> | undefined,
+): Array<[string, MachineManifest]> {
+  const unknown = (only ?? []).filter((name) => !manifest.machines[name]);
+  if (unknown.length > 0) {
+    throw new InvalidArgumentError(
+      `machine(s) not in manifest: ${unknown.join(", ")}`,
+    );
+  }
+
+  return Object.entries(manifest.machines).filter(
+    ([name]) => !only || only.includes(name),
+  );
+}
+
+export async function getDeployedMachines(client: StateBackedClient) {
+  const machines = await getAllItems(
+    (cursor) => client.machines.list({ cursor }),
+    (page) => page.machines,
+  );
+
+  return new Map<string, DeployedMachine>(machines.map((m) => [m.slug, m]));
+}
+
+export async function getMachineVersions(
+  client: StateBackedClient,
+  machineName: string,
+) {
+  const versions = await getAllItems(
+    (cursor) => client.machineVersions.list(machineName, { cursor }),
+    (page) => page.versions,
+  );
+
+  return versions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+async function planMachine(
+  name: string,
+  machine: MachineManifest,
+  deployed: Map<string, DeployedMachine>,
+) {
+  const code = await buildFromCommand(machine);
+  const fingerprint = versionFingerprint(code.code, machine.indexSelectors);
+  const git = await getGitInfo(machine.js ?? machine.node ?? machine.deno);
+  const versionReference = await resolveVersionReference(
+    machine.versionReference,
+    git,
+  );
+  const existing = deployed.get(name);
+  const current = parseClientInfo(existing?.currentVersion?.clientInfo);
+  const { codeChanged, indexSelectorsChanged } = compareFingerprints(
+    current.fingerprint,
+    fingerprint,
+  );
+
+  return {
+    name,
+    machine,
+    code,
+    fingerprint,
+    versionReference,
+    git,
+    existing,
+    codeChanged,
+    indexSelectorsChanged,
+    changed: codeChanged || indexSelectorsChanged,
+  };
+}
+
+async function plan(opts: PlanOpts, options: Command) {
+  const manifest = await loadManifest(opts.file);
+  const machines = selectMachines(manifest, opts.machine);
+  const client = await getStatebackedClient(options);
+  const deployed = await getDeployedMachines(client);
+
+  const plans = [];
+  for (const [name, machine] of machines) {
+    const p = await planMachine(name, machine, deployed);
+
+    const strandedVersions = [];
+    if (p.existing && p.changed) {
+      const versions = await getMachineVersions(client, name);
+      const instances = await getAllItems(
+        (cursor) => client.machineInstances.list(name, { cursor }),
+        (page) => page.instances,
+      );
+
+      // the version we would publish, so that the migrations uploadMigrations
+      // would upload into it are included
+      const newVersion = {
+        id: "(new)",
+        clientInfo: p.versionReference,
+        createdAt: new Date().toISOString(),
+      };
+      const edges = manifestMigrationEdges(p.machine.migrations ?? [], [
+        ...versions,
+        newVersion,
+      ]);
+
+      for (const version of versions) {
+        const instanceCount = instances.filter(
+          (i) => i.machineVersion.id === version.id,
+        ).length;
+        const { versionReference } = parseClientInfo(version.clientInfo);
+        if (
+          instanceCount > 0 &&
+          !findVersionPath(edges, version.id, newVersion.id)
+        ) {
+          strandedVersions.push({
+            id: version.id,
+            versionReference,
+            instanceCount,
+          });
+        }
+      }
+    }
+
+    plans.push({
+      machine: name,
+      newMachine: !p.existing,
+      newVersion: p.changed,
+      versionReference: p.versionReference,
+      fingerprint: p.fingerprint,
+      commit: p.git && gitProvenance(p.git),
+      currentVersion: p.existing?.currentVersion?.id,
+      codeChanged: p.codeChanged,
+      indexSelectorsChanged: p.indexSelectorsChanged,
+      indexSelectors: p.machine.indexSelectors ?? {},
+      missingMigrations: strandedVersions,
+    });
+  }
+
+  writeObj(plans);
+
+  for (const p of plans) {
+    if (!p.newVersion) {
+      console.error(`${p.machine}: up to date (${p.currentVersion})`);
+      continue;
+    }
+
+    console.error(`${p.machine}:`);
+    if (p.newMachine) {
+      const indexes = Object.keys(p.indexSelectors);
+      console.error(
+        `  + create machine${
+          indexes.length > 0 ? ` with indexes ${indexes.join(", ")}` : ""
+        }`,
+      );
+    }
+
+    console.error(
+      `  + publish version '${p.versionReference}' (${p.fingerprint}) as current`,
+    );
+
+    if (!p.newMachine && p.codeChanged) {
+      console.error(`  ~ code changed`);
+    }
+
+    if (!p.newMachine && p.indexSelectorsChanged) {
+      console.error(
+        `  ~ index selectors changed to ${JSON.stringify(p.indexSelectors)}`,
+      );
+    }
+
+    for (const v of p.missingMigrations) {
+      console.error(
+        `  ! ${v.instanceCount} instance(s) on version '${v.versionReference}' (${v.id}) have no migration path to '${p.versionReference}'`,
+      );
+    }
+  }
+}
+
+async function deploy(opts: DeployOpts, options: Command) {
+  const manifest = await loadManifest(opts.file);
+  const machines = selectMachines(manifest, opts.machine);
+  const client = await getStatebackedClient(options);
+  const deployed = await getDeployedMachines(client);
+
+  const plans = [];
+  for (const [name, machine] of machines) {
+    plans.push(await planMachine(name, machine, deployed));
+  }
+
+  // check every machine before publishing anything so we don't half-deploy
+  const dirty = plans.find((p) => p.changed && p.git?.dirty);
+  if (dirty && !opts.allowDirty) {
+    throw new InvalidArgumentError(
+      `machine '${dirty.name}' is built from '${dirty.git.root}', which has uncommitted changes. Commit them or pass --allow-dirty to deploy anyway.`,
+    );
+  }
+
+  const results = [];
+  for (const {
+    name,
+    machine,
+    code,
+    versionReference,
+    git,
+    existing,
+    changed,
+  } of plans) {
+    if (!existing) {
+      await client.machines.create(name, {
+        indexes: Object.keys(machine.indexSelectors ?? {}),
+      });
+    }
+
+    if (!changed) {
+      results.push({
+        machine: name,
+        created: false,
+        currentVersion: existing.currentVersion.id,
+        changed: false,
+      });
+      continue;
+    }
+
+    const versions = existing ? await getMachineVersions(client, name) : [];
+
+    const { machineVersionId } = await publishMachineVersion(
+      code,
+      {
+        machine: name,
+        versionReference,
+        commit: git && gitProvenance(git),
+        makeCurrent: true,
+        skipValidation: opts.skipValidation,
+        indexSelectors: machine.indexSelectors,
+        quiet: true,
+      },
+      options,
+    );
+
+    const migrations = await uploadMigrations(
+      client,
+      name,
+      machine.migrations ?? [],
+      versions,
+      versionReference,
+      machineVersionId,
+    );
+
+    results.push({
+      machine: name,
+      created: !existing,
+      currentVersion: machineVersionId,
+      changed: true,
+      migrations,
+    });
+  }
+
+  writeObj(results);
+}
+
+/**
+ * Upload the migrations into a newly published version from every existing
+ * version with the version reference they name.
+ */
+export async function uploadMigrations(
+  client: StateBackedClient,
+  name: string,
+  migrations: Array<MigrationManifest>,
+  versions: Array<{ id: string; clientInfo: string }>,
+  versionReference: string,
+  machineVersionId: string,
+) {
+  const uploaded = [];
+  for (const migration of migrations) {
+    if (migration.to !== versionReference) {
+      continue;
+    }
+
+    // several versions share a reference when a version is republished
+    const sources = versions.filter(
+      (v) => parseClientInfo(v.clientInfo).versionReference === migration.from,
+    );
+    if (sources.length === 0) {
+      console.warn(
+        `Skipping migration from '${migration.from}' to '${migration.to}' for machine '${name}' because no version '${migration.from}' exists`,
+      );
+      continue;
+    }
+
+    const gzippedCode = await gzip((await buildFromCommand(migration)).code);
+    for (const from of sources) {
+      await client.machineVersionMigrations.create(name, {
+        fromMachineVersionId: from.id,
+        toMachineVersionId: machineVersionId,
+        gzippedCode,
+      });
+
+      uploaded.push({ from: from.id, to: machineVersionId });
+    }
+  }
+
+  return uploaded;
+}
@@ -0,0 +1,63 @@
+import { Command, InvalidArgumentError } from "commander";
+import { BuildOpts, buildFromCommand } from "../utils.js";
+import { loadBundle, startEmulator } from "../emulator.js";
+
+export function addDevCommands(cmd: Command) {
+  cmd
+    .command("dev")
+    .description(
+      "Run a local emulator of the State Backed API for a machine. Instances are run in-process with the machine's pure transition function so invoked services and delayed events are not executed. Point other smply commands or your frontend at the emulator with --api-url.",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .option(
+      "-j, --js <file>",
+      "Path to the single javascript file that exports the machine definition. Exactly one of --js or --node must be specified.",
+    )
+    .option(
+      "-n, --node <file>",
+      "Path to the Node.js entrypoint to use as the machine definition. We will build the file into a single, self-contained ECMAScript module. Exactly one of --js or --node must be specified.",
+    )
+    .option(
+      "-p, --port <port>",
+      "Port to listen on",
+      (port: string) => {
+        const p = parseInt(port, 10);
+        if (!Number.isInteger(p) || p <= 0 || p > 65535) {
+          throw new InvalidArgumentError("port must be a valid port number");
+        }
+        return p;
+      },
+      4545,
+    )
+    .option(
+      "-s, --store <file>",
+      "Path to a JSON file to persist instances in. If not specified, instances are kept in memory and discarded on exit.",
+    )
+    .action(dev);
+}
+
+async function dev(
+  opts: BuildOpts & {
+    machine: string;
+    port: number;
+    store?: string;
+  },
+) {
+  const code = await buildFromCommand(opts);
+  const bundle = await loadBundle(code.bundled);
+
+  await startEmulator({
+    machineName: opts.machine,
+    bundle,
+    versionReference: code.fileName,
+    port: opts.port,
+    storeFile: opts.store,
+  });
+
+  console.log(
+    `Emulating machine '${opts.machine}' at http://localhost:${opts.port}`,
+  );
+  console.log(
+    `Use it with: smply --api-url http://localhost:${opts.port} --access-token local instances create -m ${opts.machine} ...`,
+  );
+}
@@ -1,6 +1,11 @@
 import { Command, InvalidArgumentError } from "commander";
 import { getStatebackedClient, prompt } from "../utils.js";
-import { paginateWithCursor } from "../paginator.js";
+import {
+  PaginationOptions,
+  paginateWithCursor,
+  withPaginationOptions,
+} from "../paginator.js";
+import { readObjectInput } from "../input.js";
 
 export function addIdentityProviderCommands(cmd: Command) {
   const idps = cmd
@@ -40,10 +45,9 @@ export function addIdentityProviderCommands(cmd: Command) {
     )
     .action(upsertIdentityProvider);
 
-  idps
-    .command("list")
-    .description("List identity provider configurations")
-    .action(listIdentityProviders);
+  withPaginationOptions(
+    idps.command("list").description("List identity provider configurations"),
+  ).action(listIdentityProviders);
 
   idps
     .command("upsert-supabase")
@@ -100,12 +104,17 @@ export function addIdentityProviderCommands(cmd: Command) {
     .action(deleteIdentityProvider);
 }
 
-async function listIdentityProviders(_: any, options: Command) {
+async function listIdentityProviders(
+  opts: PaginationOptions,
+  options: Command,
+) {
   const client = await getStatebackedClient(options);
 
   await paginateWithCursor(
     (cursor) => client.identityProviders.list({ cursor }),
     (page) => page.idps,
+    opts,
+    ["iss", "aud", "algs", "jwksUrl"],
   );
 }
 
@@ -228,13 +237,7 @@ async function upsertIdentityProvider(
     );
   }
 
-  const mapping = (() => {
-    try {
-      return JSON.parse(opts.mapping);
-    } catch {
-      throw new InvalidArgumentError("--mapping must be a valid JSON object");
-    }
-  })();
+  const mapping = await readObjectInput(opts.mapping, "--mapping");
 
   const key = opts.key
     ? Buffer.from(opts.key, "utf8").toString("base64url")
@@ -0,0 +1,283 @@
+import * as fs from "node:fs";
+import * as readline from "node:readline";
+import * as zlib from "node:zlib";
+import { pipeline } from "node:stream";
+import * as streamPromises from "node:stream/promises";
+import { Command, InvalidArgumentError } from "commander";
+import { StateBackedClient } from "@statebacked/client";
+import {
+  getActingClient,
+  getStatebackedClient,
+  nonNegativeInteger,
+  positiveInteger,
+  writeObj,
+} from "../utils.js";
+import { getAllItems } from "../paginator.js";
+import { runBatch, writeProgress } from "../batch.js";
+
+const archiveFormat = "smply-instances";
+const archiveVersion = 1;
+
+type ArchiveHeader = {
+  format: typeof archiveFormat;
+  version: number;
+  machine: string;
+  exportedAt: string;
+};
+
+type AdminInstanceState = Awaited<
+  ReturnType<StateBackedClient["machineInstances"]["admin"]["get"]>
+>;
+
+type Transition = Awaited<
+  ReturnType<StateBackedClient["machineInstances"]["listTransitions"]>
+>["transitions"][number];
+
+type ArchivedInstance = AdminInstanceState & {
+  name: string;
+  transitions: Array<Transition>;
+};
+
+export function addInstanceArchiveCommands(instances: Command) {
+  instances
+    .command("export")
+    .description(
+      "Export every instance of a machine, including its state, context, version, and full transition history, to a gzipped NDJSON archive",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .requiredOption(
+      "-f, --file <file>",
+      "Archive file to write (e.g. instances.ndjson.gz) (required)",
+    )
+    .option(
+      "--concurrency <concurrency>",
+      "Maximum number of instances to fetch at once",
+      positiveInteger("concurrency"),
+      10,
+    )
+    .option(
+      "--retries <retries>",
+      "Number of times to retry fetching an instance after a network, rate limit, or server error",
+      nonNegativeInteger("retries"),
+      3,
+    )
+    .action(exportInstances);
+
+  instances
+    .command("import")
+    .description(
+      "Create the instances in an archive written by 'smply instances export'. Each instance is created with its exported name and context on the version with the same ID or, failing that, the same client info as its exported version (or the current version if there is no such version). Instances start in their machine's initial state; exported states and transitions are not replayed. Instances that already exist are skipped.",
+    )
+    .requiredOption(
+      "-f, --file <file>",
+      "Archive file to read (e.g. instances.ndjson.gz) (required)",
+    )
+    .option(
+      "-m, --machine <machine>",
+      "Machine to create the instances for. Defaults to the exported machine.",
+    )
+    .option(
+      "-t, --token <token>",
+      "JWT signed with one of your State Backed keys that will provide the auth context for the machine instances. You may a key with 'smply keys create' and a token with 'smply token generate'. Provide only one of --token and --auth-context.",
+    )
+    .option(
+      "-a, --auth-context <authContext>",
+      'JSON auth context to use when creating the machine instances. E.g. \'{"sub": "user_1234"}\' Provide only one of --token and --auth-context.',
+    )
+    .option(
+      "--concurrency <concurrency>",
+      "Maximum number of instances to create at once",
+      positiveInteger("concurrency"),
+      10,
+    )
+    .option(
+      "--retries <retries>",
+      "Number of times to retry creating an instance after a network, rate limit, or server error",
+      nonNegativeInteger("retries"),
+      3,
+    )
+    .action(importInstances);
+}
+
+async function exportInstances(
+  opts: { machine: string; file: string; concurrency: number; retries: number },
+  options: Command,
+) {
+  const client = await getStatebackedClient(options);
+
+  const failures = [];
+  let exported = 0;
+
+  async function* archiveLines() {
+    const header: ArchiveHeader = {
+      format: archiveFormat,
+      version: archiveVersion,
+      machine: opts.machine,
+      exportedAt: new Date().toISOString(),
+    };
+    yield JSON.stringify(header) + "\n";
+
+    let cursor: string | undefined;
+    do {
+      const page = await client.machineInstances.list(opts.machine, {
+        cursor,
+      });
+      cursor = page.cursor;
+
+      const results = await runBatch(
+        page.instances.map((i) => i.slug),
+        async (name): Promise<ArchivedInstance> => ({
+          name,
+          ...(await client.machineInstances.admin.get(opts.machine, name)),
+          transitions: await getAllItems(
+            (cursor) =>
+              client.machineInstances.listTransitions(opts.machine, name, {
+                cursor,
+              }),
+            (page) => page.transitions,
+          ),
+        }),
+        { concurrency: opts.concurrency, retries: opts.retries },
+      );
+
+      for (const r of results) {
+        if (r.ok) {
+          yield JSON.stringify(r.result) + "\n";
+          ++exported;
+        } else {
+          failures.push({ name: r.item, error: r.error });
+        }
+      }
+
+      writeProgress("Exported")(exported, exported + failures.length);
+    } while (cursor);
+  }
+
+  // pipeline handles backpressure and rejects if writing the file fails
+  await streamPromises.pipeline(
+    archiveLines(),
+    zlib.createGzip(),
+    fs.createWriteStream(opts.file, { mode: 0o600 }),
+  );
+
+  writeObj({ file: opts.file, exported, failures });
+  if (failures.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function* readArchive(file: string) {
+  const lines = readline.createInterface({
+    // pipeline forwards read errors (e.g. a missing file) to the reader
+    input: pipeline(fs.createReadStream(file), zlib.createGunzip(), () => {}),
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of lines) {
+    if (line.trim()) {
+      yield JSON.parse(line);
+    }
+  }
+}
+
+async function importInstances(
+  opts: {
+    file: string;
+    machine?: string;
+    token?: string;
+    authContext?: string;
+    concurrency: number;
+    retries: number;
+  },
+  options: Command,
+) {
+  const archive = readArchive(opts.file);
+  const header: ArchiveHeader | undefined = await archive.next().then(
+    (res) => res.value,
+    (err) => {
+      if (err?.code === "ENOENT") {
+        throw new InvalidArgumentError(`'${opts.file}' does not exist`);
+      }
+      return undefined;
+    },
+  );
+  if (header?.format !== archiveFormat || header.version !== archiveVersion) {
+    throw new InvalidArgumentError(
+      `'${opts.file}' is not an archive written by 'smply instances export'`,
+    );
+  }
+
+  const machine = opts.machine ?? header.machine;
+  const client = await getStatebackedClient(options);
+  const actingClient = await getActingClient(opts, options);
+
+  const versions = await getAllItems(
+    (cursor) => client.machineVersions.list(machine, { cursor }),
+    (page) => page.versions,
+  );
+  const findVersion = (exported: ArchivedInstance["machineVersion"]) =>
+    (
+      versions.find((v) => v.id === exported.id) ??
+      versions.find((v) => v.clientInfo && v.clientInfo === exported.clientInfo)
+    )?.id;
+
+  const instances: Array<ArchivedInstance> = [];
+  for await (const instance of archive) {
+    instances.push(instance);
+  }
+
+  const results = await runBatch(
+    instances,
+    async (instance) => {
+      const machineVersionId = findVersion(instance.machineVersion);
+      let created = true;
+      try {
+        await actingClient.machineInstances.create(machine, {
+          slug: instance.name,
+          context: instance.context,
+          machineVersionId,
+        });
+      } catch (err) {
+        if (err?.status !== 409) {
+          throw err;
+        }
+        created = false;
+      }
+
+      // also applied to existing instances so that a retry after creating the
+      // instance but failing to pause it still pauses it
+      if (instance.status === "paused") {
+        await client.machineInstances.dangerously.setStatus(
+          machine,
+          instance.name,
+          { status: "paused" },
+        );
+      }
+
+      if (!created) {
+        return "skipped";
+      }
+
+      return machineVersionId ? "created" : "created on current version";
+    },
+    {
+      concurrency: opts.concurrency,
+      retries: opts.retries,
+      onProgress: writeProgress("Imported"),
+    },
+  );
+
+  writeObj(
+    results.map((r) =>
+      r.ok
+        ? { name: r.item.name, ok: true, result: r.result }
+        : { name: r.item.name, ok: false, error: r.error },
+    ),
+  );
+
+  const failed = results.filter((r) => !r.ok).length;
+  if (failed > 0) {
+    console.error(`Failed to import ${failed} instance(s)`);
+    process.exitCode = 1;
+  }
+}
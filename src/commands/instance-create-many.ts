@@ -0,0 +1,247 @@
+import * as fs from "node:fs/promises";
+import { Command, InvalidArgumentError } from "commander";
+import { StateBackedClient } from "@statebacked/client";
+import {
+  getStatebackedClient,
+  nonNegativeInteger,
+  positiveInteger,
+  writeObj,
+} from "../utils.js";
+import { runBatch, writeProgress } from "../batch.js";
+import { parseCsv } from "../csv.js";
+import { parseInlineObject, readObjectInput } from "../input.js";
+
+type SeedRow = {
+  name: string;
+  context?: Record<string, unknown>;
+  authContext?: Record<string, unknown>;
+  token?: string;
+  version?: string;
+};
+
+type CreateManyOpts = {
+  machine: string;
+  file: string;
+  format?: "csv" | "ndjson";
+  token?: string;
+  authContext?: string;
+  concurrency: number;
+  retries: number;
+};
+
+export function addInstanceCreateManyCommands(instances: Command) {
+  instances
+    .command("create-many")
+    .description(
+      "Create machine instances from the rows of a CSV or NDJSON file. Each row has a 'name' and may have a 'context' (initial context), an 'authContext' or 'token' to create the instance with, and a 'version' (machine version ID). In CSV files, context and authContext are JSON, JSON5, or YAML. Instances that already exist are skipped. Prints a report with the outcome for each row.",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .requiredOption(
+      "-f, --file <file>",
+      "CSV or NDJSON file to read (required)",
+    )
+    .option(
+      "--format <format>",
+      "File format. One of 'csv' or 'ndjson'. Defaults to 'csv' for .csv files and 'ndjson' otherwise.",
+      (format: string) => {
+        if (["csv", "ndjson"].indexOf(format) < 0) {
+          throw new InvalidArgumentError(
+            "format must be one of 'csv' or 'ndjson'",
+          );
+        }
+        return format;
+      },
+    )
+    .option(
+      "-t, --token <token>",
+      "JWT signed with one of your State Backed keys that will provide the auth context for rows without their own token or authContext. You may a key with 'smply keys create' and a token with 'smply token generate'. Provide only one of --token and --auth-context.",
+    )
+    .option(
+      "-a, --auth-context <authContext>",
+      'JSON auth context to use for rows without their own token or authContext. E.g. \'{"sub": "user_1234"}\' Provide only one of --token and --auth-context.',
+    )
+    .option(
+      "--concurrency <concurrency>",
+      "Maximum number of instances to create at once",
+      positiveInteger("concurrency"),
+      10,
+    )
+    .option(
+      "--retries <retries>",
+      "Number of times to retry creating an instance after a network, rate limit, or server error",
+      nonNegativeInteger("retries"),
+      3,
+    )
+    .action(createManyInstances);
+}
+
+async function readRecords(
+  file: string,
+  format: "csv" | "ndjson",
+): Promise<Array<{ record: Record<string, unknown>; line: number }>> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, { encoding: "utf8" });
+  } catch (e) {
+    if (e?.code === "ENOENT") {
+      throw new InvalidArgumentError(`'${file}' does not exist`);
+    }
+    throw e;
+  }
+
+  if (format === "csv") {
+    return parseCsv(text);
+  }
+
+  return text
+    .split("\n")
+    .map((json, i) => ({ json, line: i + 1 }))
+    .filter(({ json }) => json.trim())
+    .map(({ json, line }) => {
+      try {
+        return { record: JSON.parse(json), line };
+      } catch (e) {
+        throw new InvalidArgumentError(
+          `line ${line} is not valid JSON: ${e.message}`,
+        );
+      }
+    });
+}
+
+function toSeedRow(record: Record<string, unknown>, line: number): SeedRow {
+  const str = (key: string) => {
+    const value = record[key];
+    if (value === null || typeof value === "undefined" || value === "") {
+      return undefined;
+    }
+    if (typeof value !== "string") {
+      throw new InvalidArgumentError(`line ${line}: ${key} must be a string`);
+    }
+    return value;
+  };
+  const obj = (key: string) => {
+    const value = record[key];
+    if (value === null || typeof value === "undefined" || value === "") {
+      return undefined;
+    }
+    if (typeof value === "string") {
+      // never readObjectInput: file contents must not be able to read local
+      // files (@path) or stdin (-)
+      return parseInlineObject(value, `line ${line}: ${key}`);
+    }
+    if (typeof value !== "object" || Array.isArray(value)) {
+      throw new InvalidArgumentError(`line ${line}: ${key} must be an object`);
+    }
+    return value as Record<string, unknown>;
+  };
+
+  const name = str("name");
+  if (!name) {
+    throw new InvalidArgumentError(`line ${line}: name is required`);
+  }
+
+  const seed: SeedRow = {
+    name,
+    context: obj("context"),
+    authContext: obj("authContext"),
+    token: str("token"),
+    version: str("version"),
+  };
+
+  if (seed.token && seed.authContext) {
+    throw new InvalidArgumentError(
+      `line ${line}: provide only one of token and authContext`,
+    );
+  }
+
+  return seed;
+}
+
+async function createManyInstances(opts: CreateManyOpts, options: Command) {
+  if (opts.token && opts.authContext) {
+    throw new InvalidArgumentError(
+      "Provide only one of --token and --auth-context",
+    );
+  }
+
+  const format = opts.format ?? (/\.csv$/i.test(opts.file) ? "csv" : "ndjson");
+  const records = await readRecords(opts.file, format);
+
+  const rows = records.map(({ record, line }) => toSeedRow(record, line));
+
+  const seen = new Set<string>();
+  for (const row of rows) {
+    if (seen.has(row.name)) {
+      throw new InvalidArgumentError(
+        `instance '${row.name}' appears more than once`,
+      );
+    }
+    seen.add(row.name);
+  }
+
+  const defaultAuthContext =
+    opts.authContext &&
+    (await readObjectInput(opts.authContext, "--auth-context"));
+
+  const missingAuth = rows.find(
+    (r) => !r.token && !r.authContext && !opts.token && !defaultAuthContext,
+  );
+  if (missingAuth) {
+    throw new InvalidArgumentError(
+      `instance '${missingAuth.name}' has no token or authContext. Provide one in the file or use --token or --auth-context.`,
+    );
+  }
+
+  // rows commonly share credentials so we only create one client for each
+  const clients = new Map<string, Promise<StateBackedClient>>();
+  const getClient = (row: SeedRow) => {
+    const auth =
+      row.token || row.authContext
+        ? { token: row.token, authContext: row.authContext }
+        : { token: opts.token, authContext: defaultAuthContext };
+    const key = JSON.stringify(auth);
+    if (!clients.has(key)) {
+      clients.set(key, getStatebackedClient(options, auth));
+    }
+    return clients.get(key);
+  };
+
+  const results = await runBatch(
+    rows,
+    async (row) => {
+      const client = await getClient(row);
+      try {
+        await client.machineInstances.create(opts.machine, {
+          slug: row.name,
+          context: row.context,
+          machineVersionId: row.version,
+        });
+      } catch (err) {
+        if (err?.status === 409) {
+          return "skipped";
+        }
+        throw err;
+      }
+      return "created";
+    },
+    {
+      concurrency: opts.concurrency,
+      retries: opts.retries,
+      onProgress: writeProgress("Created"),
+    },
+  );
+
+  writeObj(
+    results.map((r) =>
+      r.ok
+        ? { name: r.item.name, ok: true, result: r.result }
+        : { name: r.item.name, ok: false, error: r.error },
+    ),
+  );
+
+  const failed = results.filter((r) => !r.ok).length;
+  if (failed > 0) {
+    console.error(`Failed to create ${failed} instance(s)`);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,155 @@
+import { Command, InvalidArgumentError } from "commander";
+import { StateBackedClient } from "@statebacked/client";
+import { BuildOpts, buildFromCommand, getStatebackedClient } from "../utils.js";
+import { getAllItems } from "../paginator.js";
+import { createItemWriter } from "../output.js";
+import { relativeTime } from "../relative-time.js";
+import { loadBundle } from "../emulator.js";
+import { diff } from "../diff.js";
+
+export function addInstanceHistoryCommands(instances: Command) {
+  instances
+    .command("history")
+    .description(
+      "Show a timeline of the events an instance received and the state changes they caused. If the machine definition is provided with --js or --node, the events are replayed through it to show how the context changed. Replaying assumes the instance started with the machine's initial context and that the definition matches the instance's version.",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .requiredOption("-i, --instance <instance>", "Instance name (required)")
+    .option(
+      "-s, --since <since>",
+      "Only show transitions at or after this time, in ISO8601 format or relative format (e.g. '-1d')",
+    )
+    .option(
+      "--until <until>",
+      "Only show transitions at or before this time, in ISO8601 format or relative format (e.g. '-1h')",
+    )
+    .option(
+      "-j, --js <file>",
+      "Path to the single javascript file that exports the machine definition to replay events through",
+    )
+    .option(
+      "-n, --node <file>",
+      "Path to the Node.js entrypoint for the machine definition to replay events through",
+    )
+    .action(history);
+}
+
+export function parseTime(value: string, name: string) {
+  const date = relativeTime(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new InvalidArgumentError(`invalid ${name} date`);
+  }
+  return date;
+}
+
+async function getTransitions(
+  client: StateBackedClient,
+  machine: string,
+  instance: string,
+) {
+  const transitions = await getAllItems(
+    (cursor) =>
+      client.machineInstances.listTransitions(machine, instance, { cursor }),
+    (page) => page.transitions,
+  );
+
+  return transitions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * The state an instance was in at `at`, reconstructed from its transitions.
+ */
+export async function getInstanceStateAt(
+  client: StateBackedClient,
+  machine: string,
+  instance: string,
+  at: Date,
+) {
+  const transitions = await getTransitions(client, machine, instance);
+  const latest = transitions.filter((t) => new Date(t.createdAt) <= at).pop();
+
+  if (!latest) {
+    throw new InvalidArgumentError(
+      `instance '${instance}' did not exist at ${at.toISOString()}`,
+    );
+  }
+
+  return {
+    at: at.toISOString(),
+    state: latest.state,
+    since: latest.createdAt,
+    event: latest.event,
+  };
+}
+
+async function history(
+  opts: BuildOpts & {
+    machine: string;
+    instance: string;
+    since?: string;
+    until?: string;
+  },
+  options: Command,
+) {
+  const since = opts.since && parseTime(opts.since, "since");
+  const until = opts.until && parseTime(opts.until, "until");
+
+  const machine =
+    opts.js || opts.node
+      ? (await loadBundle((await buildFromCommand(opts)).bundled)).machine
+      : undefined;
+
+  const client = await getStatebackedClient(options);
+  const transitions = await getTransitions(client, opts.machine, opts.instance);
+
+  let replayed: any;
+  let diverged = false;
+  const entries = transitions.map((t, i) => {
+    const entry: Record<string, unknown> = {
+      createdAt: t.createdAt,
+      event: t.event,
+      from: transitions[i - 1]?.state,
+      to: t.state,
+    };
+
+    if (!machine || diverged) {
+      return entry;
+    }
+
+    const previous = replayed;
+    replayed = previous
+      ? machine.transition(previous, t.event)
+      : machine.initialState;
+
+    if (JSON.stringify(replayed.value) !== JSON.stringify(t.state)) {
+      diverged = true;
+      console.warn(
+        `Replaying ${JSON.stringify(t.event)} at ${
+          t.createdAt
+        } resulted in state ${JSON.stringify(
+          replayed.value,
+        )} instead of ${JSON.stringify(
+          t.state,
+        )}. Not showing context changes from here on.`,
+      );
+      return entry;
+    }
+
+    entry.contextChanges = diff(previous?.context, replayed.context);
+    return entry;
+  });
+
+  createItemWriter([
+    "createdAt",
+    "event",
+    "from",
+    "to",
+    "contextChanges",
+  ]).write(
+    entries.filter(
+      (e) =>
+        (!since || new Date(e.createdAt as string) >= since) &&
+        (!until || new Date(e.createdAt as string) <= until),
+    ),
+  );
+}
@@ -0,0 +1,392 @@
+import { Command, InvalidArgumentError } from "commander";
+import { StateBackedClient, StateValue } from "@statebacked/client";
+import {
+  PaginationOptions,
+  getAllItems,
+  paginateWithCursor,
+  withPaginationOptions,
+} from "../paginator.js";
+import { getStatebackedClient } from "../utils.js";
+import { runBatch } from "../batch.js";
+
+const conditionOps = ["eq", "ne", "lt", "lte", "gt", "gte", "prefix"];
+
+type ConditionOp = "eq" | "ne" | "lt" | "lte" | "gt" | "gte" | "prefix";
+
+export type Condition = {
+  index: string;
+  op: ConditionOp;
+  value: string;
+};
+
+type IndexedInstance = {
+  slug: string;
+  indexValue: unknown;
+};
+
+export type IndexConditionOpts = {
+  index?: string;
+  op?: ConditionOp;
+  value?: string;
+  eq?: string;
+  ne?: string;
+  lt?: string;
+  lte?: string;
+  gt?: string;
+  gte?: string;
+  prefix?: string;
+  sort?: "asc" | "desc";
+};
+
+type QueryInstancesOpts = PaginationOptions &
+  IndexConditionOpts & {
+    machine: string;
+    where: Array<Condition>;
+    withState?: boolean;
+    inState?: string;
+  };
+
+export function addInstanceQueryCommands(instances: Command) {
+  withPaginationOptions(
+    instances
+      .command("query")
+      .description(
+        "Query for machine instances. Conditions on --index may be combined (e.g. --gte 10 --lt 20) and --where adds conditions on other indexes. Only one condition is sent to the State Backed API; the rest are applied as results are read, and instances are only returned if they match the conditions on every index.",
+      )
+      .requiredOption("-m, --machine <machine>", "Machine name (required)")
+      .option(
+        "-i, --index <index>",
+        "Index name to query. Required unless --where is specified.",
+      )
+      .option(
+        "-o, --op <op>",
+        "Operator to use for the query. One of 'eq', 'ne', 'lt', 'lte', 'gt', 'gte'. No filter will be applied if not specified.",
+      )
+      .option(
+        "-v, --value <value>",
+        "Value to use for the operator (--op). No filter will be applied if not specified.",
+      )
+      .option("--eq <value>", "Only include index values equal to this value")
+      .option(
+        "--ne <value>",
+        "Only include index values not equal to this value",
+      )
+      .option("--lt <value>", "Only include index values less than this value")
+      .option(
+        "--lte <value>",
+        "Only include index values less than or equal to this value",
+      )
+      .option(
+        "--gt <value>",
+        "Only include index values greater than this value",
+      )
+      .option(
+        "--gte <value>",
+        "Only include index values greater than or equal to this value",
+      )
+      .option(
+        "--prefix <prefix>",
+        "Only include index values that start with this prefix",
+      )
+      .option(
+        "-w, --where <condition>",
+        "Condition in the form '<index> <op> <value>' where op is one of 'eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'prefix'. E.g. --where 'total gte 100'. May be repeated.",
+        parseCondition,
+        [],
+      )
+      .option(
+        "-s, --sort <sort>",
+        "Sort order. One of 'asc' or 'desc'. Defaults to 'asc'.",
+      )
+      .option(
+        "--with-state",
+        "Include the state, context, and status of each matching instance",
+        false,
+      )
+      .option(
+        "--in-state <state>",
+        "Only include instances in this state. Use dots for nested states (e.g. 'checkout.payment'). Implies --with-state.",
+      ),
+  ).action(queryMachineInstances);
+}
+
+function parseCondition(condition: string, previous: Array<Condition>) {
+  const match = /^\s*(\S+)\s+(\S+)\s+(.*)$/.exec(condition);
+  if (!match || !conditionOps.includes(match[2])) {
+    throw new InvalidArgumentError(
+      `conditions must be in the form '<index> <op> <value>' where op is one of ${conditionOps
+        .map((op) => `'${op}'`)
+        .join(", ")}`,
+    );
+  }
+
+  return previous.concat({
+    index: match[1],
+    op: match[2] as ConditionOp,
+    value: match[3],
+  });
+}
+
+export function indexConditions(opts: IndexConditionOpts): Array<Condition> {
+  const ops: Array<[ConditionOp, string | undefined]> = [
+    [opts.op, opts.value],
+    ["eq", opts.eq],
+    ["ne", opts.ne],
+    ["lt", opts.lt],
+    ["lte", opts.lte],
+    ["gt", opts.gt],
+    ["gte", opts.gte],
+    ["prefix", opts.prefix],
+  ];
+
+  return ops
+    .filter(([op, value]) => op && typeof value !== "undefined")
+    .map(([op, value]) => ({ index: opts.index, op, value }));
+}
+
+export function validateIndexConditionOpts(opts: IndexConditionOpts) {
+  if (opts.op && !["eq", "ne", "lt", "lte", "gt", "gte"].includes(opts.op)) {
+    throw new InvalidArgumentError(
+      "op must be one of 'eq', 'ne', 'lt', 'lte', 'gt', 'gte'",
+    );
+  }
+
+  if (opts.sort && !["asc", "desc"].includes(opts.sort)) {
+    throw new InvalidArgumentError("sort must be one of 'asc' or 'desc'");
+  }
+
+  if ((opts.op && !opts.value) || (!opts.op && opts.value)) {
+    throw new InvalidArgumentError(
+      "op and value must both be specified or neither must be specified",
+    );
+  }
+
+  const hasIndexConditions = [
+    opts.op,
+    opts.eq,
+    opts.ne,
+    opts.lt,
+    opts.lte,
+    opts.gt,
+    opts.gte,
+    opts.prefix,
+  ].some((v) => typeof v !== "undefined");
+
+  if (hasIndexConditions && !opts.index) {
+    throw new InvalidArgumentError(
+      "--op, --eq, --ne, --lt, --lte, --gt, --gte, and --prefix require --index",
+    );
+  }
+}
+
+function validateQueryInstancesOpts(opts: QueryInstancesOpts) {
+  validateIndexConditionOpts(opts);
+
+  if (!opts.index && opts.where.length === 0) {
+    throw new InvalidArgumentError("specify --index or --where");
+  }
+}
+
+/**
+ * Index values are compared as numbers if the index holds numbers and as
+ * strings otherwise.
+ */
+function compareIndexValue(indexValue: unknown, value: string) {
+  if (typeof indexValue === "number") {
+    const n = Number(value);
+    return indexValue < n ? -1 : indexValue > n ? 1 : 0;
+  }
+
+  const s = String(indexValue);
+  return s < value ? -1 : s > value ? 1 : 0;
+}
+
+export function matchesCondition(condition: Condition, indexValue: unknown) {
+  if (condition.op === "prefix") {
+    return String(indexValue).startsWith(condition.value);
+  }
+
+  const cmp = compareIndexValue(indexValue, condition.value);
+  switch (condition.op) {
+    case "eq":
+      return cmp === 0;
+    case "ne":
+      return cmp !== 0;
+    case "lt":
+      return cmp < 0;
+    case "lte":
+      return cmp <= 0;
+    case "gt":
+      return cmp > 0;
+    case "gte":
+      return cmp >= 0;
+  }
+}
+
+/**
+ * The API accepts a single condition per query, so we send the most selective
+ * one and check the rest client-side. A prefix is sent as a lower bound.
+ */
+function serverCondition(conditions: Array<Condition>) {
+  const preference: Array<ConditionOp> = [
+    "eq",
+    "gte",
+    "gt",
+    "prefix",
+    "lte",
+    "lt",
+    "ne",
+  ];
+
+  for (const op of preference) {
+    const condition = conditions.find((c) => c.op === op);
+    if (condition) {
+      return {
+        op: op === "prefix" ? "gte" : op,
+        value: condition.value,
+      };
+    }
+  }
+
+  return {};
+}
+
+export function queryIndex(
+  client: StateBackedClient,
+  machine: string,
+  index: string,
+  conditions: Array<Condition>,
+  opts: { sort?: "asc" | "desc"; cursor?: string },
+): Promise<{ instances: Array<IndexedInstance>; cursor?: string }> {
+  return client.machineInstances.query(machine, index, {
+    ...serverCondition(conditions),
+    dir: opts.sort,
+    cursor: opts.cursor,
+  });
+}
+
+export function matchesState(state: StateValue, path: string): boolean {
+  const [head, ...rest] = path.split(".");
+  if (typeof state === "string") {
+    return rest.length === 0 && state === head;
+  }
+
+  return (
+    head in state &&
+    (rest.length === 0 || matchesState(state[head], rest.join(".")))
+  );
+}
+
+async function queryMachineInstances(
+  opts: QueryInstancesOpts,
+  options: Command,
+) {
+  validateQueryInstancesOpts(opts);
+
+  const conditions = [
+    ...(opts.index ? indexConditions(opts) : []),
+    ...opts.where,
+  ];
+  const indexes = Array.from(
+    new Set([
+      ...(opts.index ? [opts.index] : []),
+      ...opts.where.map((c) => c.index),
+    ]),
+  );
+  const conditionsFor = (index: string) =>
+    conditions.filter((c) => c.index === index);
+
+  const client = await getStatebackedClient(options);
+
+  // we page through the first index and join the others by instance name
+  const [primary, ...others] = indexes;
+  const otherValues = new Map<string, Map<string, unknown>>();
+  for (const index of others) {
+    const matches = await getAllItems(
+      (cursor) =>
+        queryIndex(client, opts.machine, index, conditionsFor(index), {
+          cursor,
+        }),
+      (page) =>
+        page.instances.filter((i) =>
+          conditionsFor(index).every((c) => matchesCondition(c, i.indexValue)),
+        ),
+    );
+    otherValues.set(index, new Map(matches.map((i) => [i.slug, i.indexValue])));
+  }
+
+  const withState = opts.withState || !!opts.inState;
+
+  const getPage = async (cursor?: string) => {
+    const page = await queryIndex(
+      client,
+      opts.machine,
+      primary,
+      conditionsFor(primary),
+      { sort: opts.sort, cursor },
+    );
+
+    let instances: Array<Record<string, unknown>> = page.instances
+      .filter(
+        (i) =>
+          conditionsFor(primary).every((c) =>
+            matchesCondition(c, i.indexValue),
+          ) && others.every((index) => otherValues.get(index).has(i.slug)),
+      )
+      .map((i) =>
+        indexes.length === 1
+          ? { name: i.slug, indexValue: i.indexValue }
+          : {
+              name: i.slug,
+              indexValues: Object.fromEntries(
+                indexes.map((index) => [
+                  index,
+                  index === primary
+                    ? i.indexValue
+                    : otherValues.get(index).get(i.slug),
+                ]),
+              ),
+            },
+      );
+
+    if (withState) {
+      const results = await runBatch(
+        instances,
+        (instance) =>
+          client.machineInstances.admin.get(
+            opts.machine,
+            instance.name as string,
+          ),
+        { concurrency: 10, retries: 3 },
+      );
+
+      const failed = results.find((r) => !r.ok);
+      if (failed) {
+        throw new Error(
+          `failed to get instance '${failed.item.name}': ${failed.error}`,
+        );
+      }
+
+      instances = results
+        .filter(
+          (r) => !opts.inState || matchesState(r.result.state, opts.inState),
+        )
+        .map((r) => ({
+          ...r.item,
+          state: r.result.state,
+          status: r.result.status,
+          context: r.result.context,
+        }));
+    }
+
+    return { instances, cursor: page.cursor };
+  };
+
+  await paginateWithCursor(getPage, (page) => page.instances, opts, [
+    "name",
+    ...(indexes.length === 1
+      ? ["indexValue"]
+      : indexes.map((index) => `indexValues.${index}`)),
+    ...(withState ? ["state", "status"] : []),
+  ]);
+}
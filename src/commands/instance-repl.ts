@@ -0,0 +1,224 @@
+import * as readline from "node:readline";
+import { Command } from "commander";
+import { StateBackedClient } from "@statebacked/client";
+import {
+  BuildOpts,
+  buildFromCommand,
+  getActingClient,
+  getStatebackedClient,
+} from "../utils.js";
+import { getAllItems } from "../paginator.js";
+import { loadBundle } from "../emulator.js";
+import { diff, formatChanges } from "../diff.js";
+import { readEvent } from "../input.js";
+
+type ReplOpts = BuildOpts & {
+  machine: string;
+  instance: string;
+  token?: string;
+  authContext?: string;
+};
+
+const replCommands: Record<string, string> = {
+  ".help": "Show this help",
+  ".state": "Show the instance's current state and context",
+  ".transitions":
+    "Show the most recent transitions. Usage: .transitions [count]",
+  ".auth":
+    'Send events as this auth context. Usage: .auth {"sub": "user_1234"}',
+  ".token":
+    "Send events with the auth context from this JWT. Usage: .token <jwt>",
+  ".exit": "Exit the REPL",
+};
+
+export function addInstanceReplCommands(instances: Command) {
+  instances
+    .command("repl")
+    .description(
+      "Interactively send events to a machine instance. Enter an event type or a JSON event to send it and see the resulting state and context changes. Enter .help for other commands. Tab completes event types from the local machine definition (if --js or --node is specified) and from events the instance has received.",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .requiredOption("-i, --instance <instance>", "Instance name (required)")
+    .option(
+      "-t, --token <token>",
+      "JWT signed with one of your State Backed keys that will provide the auth context for the machine instance. You may a key with 'smply keys create' and a token with 'smply token generate'. Provide only one of --token and --auth-context. May be changed in the REPL with .token.",
+    )
+    .option(
+      "-a, --auth-context <authContext>",
+      'JSON auth context to use when sending events. E.g. \'{"sub": "user_1234"}\' Provide only one of --token and --auth-context. May be changed in the REPL with .auth.',
+    )
+    .option(
+      "-j, --js <file>",
+      "Path to the single javascript file that exports the machine definition, used to complete event types",
+    )
+    .option(
+      "-n, --node <file>",
+      "Path to the Node.js entrypoint for the machine definition, used to complete event types",
+    )
+    .action(repl);
+}
+
+async function getLocalEventTypes(opts: BuildOpts): Promise<Array<string>> {
+  if (!opts.js && !opts.node) {
+    return [];
+  }
+
+  const code = await buildFromCommand(opts);
+  const { machine } = await loadBundle(code.bundled);
+
+  return (machine.events ?? []).filter(
+    (type: string) => !/^(xstate\.|done\.|error\.)/.test(type),
+  );
+}
+
+function eventType(event: unknown) {
+  return typeof event === "string" ? event : (event as any)?.type;
+}
+
+async function repl(opts: ReplOpts, options: Command) {
+  const client = await getStatebackedClient(options);
+  let actingClient: StateBackedClient | undefined =
+    opts.token || opts.authContext
+      ? await getActingClient(opts, options)
+      : undefined;
+
+  const eventTypes = new Set(await getLocalEventTypes(opts));
+  const getState = () =>
+    client.machineInstances.admin.get(opts.machine, opts.instance);
+  const getTransitions = () =>
+    getAllItems(
+      (cursor) =>
+        client.machineInstances.listTransitions(opts.machine, opts.instance, {
+          cursor,
+        }),
+      (page) => page.transitions,
+    );
+
+  let state = await getState();
+  for (const t of await getTransitions()) {
+    const type = eventType(t.event);
+    if (type && !type.startsWith("xstate.")) {
+      eventTypes.add(type);
+    }
+  }
+
+  const printState = () => {
+    console.log(`state: ${JSON.stringify(state.state)}`);
+    console.log(`context: ${JSON.stringify(state.context, null, 2)}`);
+    console.log(
+      `status: ${state.status}, done: ${state.done}, tags: ${JSON.stringify(
+        state.tags,
+      )}`,
+    );
+  };
+
+  const handlers: Record<string, (arg: string) => Promise<void>> = {
+    ".help": async () => {
+      for (const [cmd, help] of Object.entries(replCommands)) {
+        console.log(`${cmd.padEnd(14)} ${help}`);
+      }
+      console.log(
+        "Anything else is sent as an event: an event type or a JSON event.",
+      );
+    },
+    ".state": async () => {
+      state = await getState();
+      printState();
+    },
+    ".transitions": async (arg) => {
+      const count = parseInt(arg, 10) || 10;
+      for (const t of (await getTransitions()).slice(-count)) {
+        console.log(
+          `${t.createdAt} ${JSON.stringify(t.event)} -> ${JSON.stringify(
+            t.state,
+          )}`,
+        );
+      }
+    },
+    ".auth": async (arg) => {
+      actingClient = await getActingClient({ authContext: arg }, options);
+      console.log("Sending events as this auth context");
+    },
+    ".token": async (arg) => {
+      actingClient = await getActingClient({ token: arg }, options);
+      console.log("Sending events with this token");
+    },
+  };
+
+  const sendEvent = async (line: string) => {
+    if (!actingClient) {
+      console.log(
+        'Set an auth context with .auth {"sub": "..."} or .token <jwt> before sending events',
+      );
+      return;
+    }
+
+    const event = await readEvent(line, "event");
+    await actingClient.machineInstances.sendEvent(opts.machine, opts.instance, {
+      event,
+    });
+
+    const previous = state;
+    state = await getState();
+    if (eventType(event)) {
+      eventTypes.add(eventType(event));
+    }
+
+    console.log(
+      JSON.stringify(previous.state) === JSON.stringify(state.state)
+        ? `state: ${JSON.stringify(state.state)} (unchanged)`
+        : `state: ${JSON.stringify(previous.state)} -> ${JSON.stringify(
+            state.state,
+          )}`,
+    );
+    const changes = diff(previous.context, state.context);
+    console.log(
+      changes.length > 0 ? formatChanges(changes) : "context unchanged",
+    );
+  };
+
+  printState();
+  console.log("Enter .help for help");
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: `${opts.machine}/${opts.instance}> `,
+    completer: (line: string) => {
+      const candidates = line.startsWith(".")
+        ? Object.keys(replCommands)
+        : Array.from(eventTypes).sort();
+      const matches = candidates.filter((c) => c.startsWith(line));
+      return [matches.length > 0 ? matches : candidates, line];
+    },
+  });
+
+  rl.prompt();
+  for await (const input of rl) {
+    const line = input.trim();
+    const [cmd] = line.split(/\s+/, 1);
+    const arg = line.slice(cmd.length).trim();
+
+    if (cmd === ".exit") {
+      break;
+    }
+
+    try {
+      if (!line) {
+        // nothing to do
+      } else if (handlers[cmd]) {
+        await handlers[cmd](arg);
+      } else if (cmd.startsWith(".")) {
+        console.log(`Unknown command ${cmd}. Enter .help for help.`);
+      } else {
+        await sendEvent(line);
+      }
+    } catch (err) {
+      console.error(err?.message ?? err);
+    }
+
+    rl.prompt();
+  }
+
+  rl.close();
+}
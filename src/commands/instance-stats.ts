@@ -0,0 +1,139 @@
+import { Command } from "commander";
+import { StateValue } from "@statebacked/client";
+import {
+  getStatebackedClient,
+  nonNegativeInteger,
+  positiveInteger,
+} from "../utils.js";
+import { getAllItems } from "../paginator.js";
+import { runBatch, writeProgress } from "../batch.js";
+import { createItemWriter } from "../output.js";
+
+const hour = 60 * 60 * 1000;
+const day = 24 * hour;
+
+const ageBuckets: Array<[string, number]> = [
+  ["< 1h", hour],
+  ["1h - 1d", day],
+  ["1d - 7d", 7 * day],
+  ["7d - 30d", 30 * day],
+  ["30d - 90d", 90 * day],
+  ["> 90d", Infinity],
+];
+
+export function addInstanceStatsCommands(instances: Command) {
+  instances
+    .command("stats")
+    .description(
+      "Report how many instances of a machine are in each state, on each machine version, and in each status, and how old they are. Instances in nested or parallel states are counted for each of their active states (e.g. an instance in 'checkout.payment' counts towards both 'checkout' and 'checkout.payment').",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .option(
+      "--concurrency <concurrency>",
+      "Maximum number of instance states to fetch at once",
+      positiveInteger("concurrency"),
+      10,
+    )
+    .option(
+      "--retries <retries>",
+      "Number of times to retry fetching an instance's state after a network, rate limit, or server error",
+      nonNegativeInteger("retries"),
+      3,
+    )
+    .action(instanceStats);
+}
+
+/**
+ * Dotted paths of every active state node in `state`.
+ */
+function statePaths(state: StateValue, prefix = ""): Array<string> {
+  if (typeof state === "string") {
+    return [prefix + state];
+  }
+
+  return Object.entries(state).flatMap(([key, value]) => [
+    prefix + key,
+    ...statePaths(value, `${prefix}${key}.`),
+  ]);
+}
+
+function ageBucket(createdAt: string, now: number) {
+  const age = now - new Date(createdAt).getTime();
+  return ageBuckets.find(([, max]) => age < max)[0];
+}
+
+function increment(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+async function instanceStats(
+  opts: { machine: string; concurrency: number; retries: number },
+  options: Command,
+) {
+  const client = await getStatebackedClient(options);
+
+  const instances = await getAllItems(
+    (cursor) => client.machineInstances.list(opts.machine, { cursor }),
+    (page) => page.instances,
+  );
+
+  const results = await runBatch(
+    instances,
+    (instance) =>
+      client.machineInstances.admin.get(opts.machine, instance.slug),
+    {
+      concurrency: opts.concurrency,
+      retries: opts.retries,
+      onProgress: writeProgress("Fetched"),
+    },
+  );
+
+  const states = new Map<string, number>();
+  const versions = new Map<string, number>();
+  const statuses = new Map<string, number>();
+  const ages = new Map<string, number>(
+    ageBuckets.map(([bucket]) => [bucket, 0]),
+  );
+  const now = Date.now();
+
+  for (const r of results) {
+    if (r.ok) {
+      for (const path of statePaths(r.result.state)) {
+        increment(states, path);
+      }
+    } else {
+      increment(states, "(unknown)");
+    }
+
+    const version = r.item.machineVersion;
+    increment(versions, version?.clientInfo || version?.id || "(unknown)");
+    increment(statuses, r.item.status);
+    increment(ages, ageBucket(r.item.createdAt, now));
+  }
+
+  const failed = results.filter((r) => !r.ok);
+  if (failed.length > 0) {
+    console.error(
+      `Failed to fetch the state of ${failed.length} instance(s). They are counted as '(unknown)'.`,
+    );
+  }
+
+  const total = instances.length;
+  const rows = (group: string, counts: Map<string, number>) =>
+    Array.from(counts.entries()).map(([value, count]) => ({
+      group,
+      value,
+      count,
+      percent: total > 0 ? Math.round((count / total) * 1000) / 10 : 0,
+    }));
+  const byCount = (a: { count: number }, b: { count: number }) =>
+    b.count - a.count;
+
+  createItemWriter(["group", "value", "count", "percent"]).write([
+    { group: "total", value: opts.machine, count: total, percent: 100 },
+    ...rows("state", states).sort((a, b) => a.value.localeCompare(b.value)),
+    ...rows("version", versions).sort(byCount),
+    ...rows("status", statuses).sort(byCount),
+    ...rows("age", ages),
+  ]);
+}
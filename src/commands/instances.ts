@@ -1,42 +1,76 @@
 import { Command, InvalidArgumentError } from "commander";
-import { PaginationOptions, paginateWithCursor } from "../paginator.js";
-import { BuildOpts, getStatebackedClient, prompt, writeObj } from "../utils.js";
+import { StateBackedClient } from "@statebacked/client";
+import {
+  PaginationOptions,
+  getAllItems,
+  paginateWithCursor,
+  withPaginationOptions,
+} from "../paginator.js";
+import {
+  BuildOpts,
+  getActingClient,
+  getStatebackedClient,
+  nonNegativeInteger,
+  positiveInteger,
+  prompt,
+  writeObj,
+} from "../utils.js";
+import { runBatch, writeProgress } from "../batch.js";
+import { diff } from "../diff.js";
+import { readEvent, readObjectInput } from "../input.js";
+import {
+  IndexConditionOpts,
+  addInstanceQueryCommands,
+  indexConditions,
+  matchesCondition,
+  matchesState,
+  queryIndex,
+  validateIndexConditionOpts,
+} from "./instance-query.js";
+import { addInstanceArchiveCommands } from "./instance-archive.js";
+import { addInstanceCreateManyCommands } from "./instance-create-many.js";
+import { addInstanceReplCommands } from "./instance-repl.js";
+import { addInstanceStatsCommands } from "./instance-stats.js";
+import {
+  addInstanceHistoryCommands,
+  getInstanceStateAt,
+  parseTime,
+} from "./instance-history.js";
+import { loadMachineMigrations, migrationCoverage } from "./migrations.js";
+import {
+  MachineVersionInfo,
+  findMachineVersion,
+  getAllMachineVersions,
+} from "./machine-versions.js";
+import {
+  defaultManifestFile,
+  manifestExists,
+  parseClientInfo,
+} from "../manifest.js";
 
 export function addMachineInstancesCommands(cmd: Command) {
   const instances = cmd
     .command("instances")
     .description("Manage state machine instances");
 
-  instances
-    .command("list")
-    .description("List machine instances")
-    .requiredOption("-m, --machine <machine>", "Machine name (required)")
-    .action(listMachineInstances);
+  withPaginationOptions(
+    instances
+      .command("list")
+      .description("List machine instances")
+      .requiredOption("-m, --machine <machine>", "Machine name (required)"),
+  ).action(listMachineInstances);
 
-  instances
-    .command("query")
-    .description("Query for machine instances")
-    .requiredOption("-m, --machine <machine>", "Machine name (required)")
-    .requiredOption("-i, --index <index>", "Index name to query (required)")
-    .option(
-      "-o, --op <op>",
-      "Operator to use for the query. One of 'eq', 'ne', 'lt', 'lte', 'gt', 'gte'. No filter will be applied if not specified.",
-    )
-    .option(
-      "-v, --value <value>",
-      "Value to use for the operator (--op). No filter will be applied if not specified.",
-    )
-    .option(
-      "-s, --sort <sort>",
-      "Sort order. One of 'asc' or 'desc'. Defaults to 'asc'.",
-    )
-    .action(queryMachineInstances);
+  addInstanceQueryCommands(instances);
 
   instances
     .command("get")
     .description("Get a machine instance")
     .requiredOption("-m, --machine <machine>", "Machine name (required)")
     .requiredOption("-i, --instance <instance>", "Instance name (required)")
+    .option(
+      "--at <time>",
+      "Instead of the current state, show the state the instance was in at this time, reconstructed from its transitions. ISO8601 format or relative format (e.g. '-1d').",
+    )
     .action(getMachineInstance);
 
   instances
@@ -81,6 +115,27 @@ export function addMachineInstancesCommands(cmd: Command) {
     )
     .action(sendEventToMachineInstance);
 
+  instances
+    .command("watch")
+    .description(
+      "Print the state, public context changes, and timestamp of each state update for a machine instance as it happens. Use --output ndjson to pipe updates to other tools.",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .requiredOption("-i, --instance <instance>", "Instance name (required)")
+    .option(
+      "-t, --token <token>",
+      "JWT signed with one of your State Backed keys that will provide the auth context for the machine instance. You may a key with 'smply keys create' and a token with 'smply token generate'. Provide only one of --token and --auth-context.",
+    )
+    .option(
+      "-a, --auth-context <authContext>",
+      'JSON auth context to use when reading the machine instance. E.g. \'{"sub": "user_1234"}\' Provide only one of --token and --auth-context.',
+    )
+    .option(
+      "--exit-on-state <state>",
+      "Exit once the instance is in this state. Use dots for nested states (e.g. 'checkout.payment').",
+    )
+    .action(watchMachineInstance);
+
   instances
     .command("set-desired-version")
     .description("Set the desired version for this instance")
@@ -88,16 +143,26 @@ export function addMachineInstancesCommands(cmd: Command) {
     .requiredOption("-i, --instance <instance>", "Instance name (required)")
     .requiredOption(
       "-v, --version <version>",
-      "Desired machine version ID to use for this instance (required)",
+      "Desired machine version ID or version reference to use for this instance (required)",
+    )
+    .option(
+      "-f, --file <file>",
+      `Path to the project manifest with the machine's migrations. Before setting the desired version, we check that the migrations can upgrade the instance from its current version to the desired version. Defaults to '${defaultManifestFile}' if it exists.`,
+    )
+    .option(
+      "--skip-migration-check",
+      "Set the desired version without checking for a migration path to it",
+      false,
     )
     .action(setDesiredMachineInstanceVersion);
 
-  instances
-    .command("list-transitions")
-    .description("List the transitions for this instance")
-    .requiredOption("-m, --machine <machine>", "Machine name (required)")
-    .requiredOption("-i, --instance <instance>", "Instance name (required)")
-    .action(listInstanceTransitions);
+  withPaginationOptions(
+    instances
+      .command("list-transitions")
+      .description("List the transitions for this instance")
+      .requiredOption("-m, --machine <machine>", "Machine name (required)")
+      .requiredOption("-i, --instance <instance>", "Instance name (required)"),
+  ).action(listInstanceTransitions);
 
   instances
     .command("set-status")
@@ -124,6 +189,142 @@ export function addMachineInstancesCommands(cmd: Command) {
     .requiredOption("-m, --machine <machine>", "Machine name (required)")
     .requiredOption("-i, --instance <instance>", "Instance name (required)")
     .action(deleteMachineInstance);
+
+  addInstanceCreateManyCommands(instances);
+
+  addInstanceArchiveCommands(instances);
+
+  addInstanceReplCommands(instances);
+
+  addInstanceHistoryCommands(instances);
+
+  addInstanceStatsCommands(instances);
+
+  const bulk = instances
+    .command("bulk")
+    .description("Perform an operation on many machine instances at once");
+
+  bulk
+    .command("send-event")
+    .description(
+      "Send an event to every instance of a machine or to every instance matching an index query. Prints a report with the outcome for each instance.",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .requiredOption(
+      "-e, --event <event>",
+      'JSON (or string) event to send. If JSON, { "type": "...", ...otherData }. (required)',
+    )
+    .option(
+      "-t, --token <token>",
+      "JWT signed with one of your State Backed keys that will provide the auth context for the machine instances. You may a key with 'smply keys create' and a token with 'smply token generate'. Provide only one of --token and --auth-context.",
+    )
+    .option(
+      "-a, --auth-context <authContext>",
+      'JSON auth context to use when sending the event. E.g. \'{"sub": "user_1234"}\' Provide only one of --token and --auth-context.',
+    )
+    .option(
+      "-i, --index <index>",
+      "Only send the event to instances returned by querying this index. Sends to every instance of the machine if not specified.",
+    )
+    .option(
+      "-o, --op <op>",
+      "Operator to use for the index query. One of 'eq', 'ne', 'lt', 'lte', 'gt', 'gte'.",
+    )
+    .option("-v, --value <value>", "Value to use for the operator (--op)")
+    .option(
+      "--concurrency <concurrency>",
+      "Maximum number of events to send at once",
+      positiveInteger("concurrency"),
+      10,
+    )
+    .option(
+      "--retries <retries>",
+      "Number of times to retry sending an event after a network, rate limit, or server error",
+      nonNegativeInteger("retries"),
+      3,
+    )
+    .option(
+      "--dry-run",
+      "Print the instances that would receive the event without sending it",
+      false,
+    )
+    .action(bulkSendEvent);
+}
+
+async function bulkSendEvent(
+  opts: IndexConditionOpts & {
+    machine: string;
+    event: string;
+    token?: string;
+    authContext?: string;
+    index?: string;
+    concurrency: number;
+    retries: number;
+    dryRun: boolean;
+  },
+  options: Command,
+) {
+  validateIndexConditionOpts(opts);
+
+  const event = await readEvent(opts.event);
+  const actingClient = opts.dryRun
+    ? undefined
+    : await getActingClient(opts, options);
+  const client = await getStatebackedClient(options);
+
+  const conditions = indexConditions(opts);
+  const instanceNames: Array<string> = opts.index
+    ? await getAllItems(
+        (cursor) =>
+          queryIndex(client, opts.machine, opts.index, conditions, { cursor }),
+        (page) =>
+          page.instances
+            .filter((i) =>
+              conditions.every((c) => matchesCondition(c, i.indexValue)),
+            )
+            .map((i) => i.slug),
+      )
+    : await getAllItems(
+        (cursor) => client.machineInstances.list(opts.machine, { cursor }),
+        (page) => page.instances.map((i) => i.slug),
+      );
+
+  if (opts.dryRun) {
+    writeObj(instanceNames.map((name) => ({ name })));
+    return;
+  }
+
+  const results = await runBatch(
+    instanceNames,
+    (instance) =>
+      actingClient.machineInstances.sendEvent(opts.machine, instance, {
+        event,
+      }),
+    {
+      concurrency: opts.concurrency,
+      retries: opts.retries,
+      onProgress: writeProgress("Sent"),
+    },
+  );
+
+  writeObj(
+    results.map((r) =>
+      r.ok
+        ? {
+            name: r.item,
+            ok: true,
+            attempts: r.attempts,
+            state: r.result.state,
+          }
+        : { name: r.item, ok: false, attempts: r.attempts, error: r.error },
+    ),
+  );
+
+  const failed = results.filter((r) => !r.ok).length;
+  if (failed > 0) {
+    console.error(`Failed to send the event to ${failed} instance(s)`);
+    process.exitCode = 1;
+  }
 }
 
 async function setDesiredMachineInstanceVersion(
@@ -131,22 +332,80 @@ async function setDesiredMachineInstanceVersion(
     machine: string;
     instance: string;
     version: string;
+    file?: string;
+    skipMigrationCheck: boolean;
   },
   options: Command,
 ) {
   const client = await getStatebackedClient(options);
+  const versions = await getAllMachineVersions(client, opts.machine);
+  const target = findMachineVersion(versions, opts.machine, opts.version);
+
+  if (!opts.skipMigrationCheck) {
+    await checkMigrationPath(client, opts, versions, target);
+  }
 
   await client.machineInstances.admin.updateDesiredVersion(
     opts.machine,
     opts.instance,
     {
-      targetMachineVersionId: opts.version,
+      targetMachineVersionId: target.id,
     },
   );
 
   console.log("Successfully set desired version");
 }
 
+/**
+ * Make sure that the manifest's migrations upgrade the instance to the desired
+ * version. Otherwise, setting the desired version would silently do nothing.
+ */
+async function checkMigrationPath(
+  client: StateBackedClient,
+  opts: { machine: string; instance: string; file?: string },
+  versions: Array<MachineVersionInfo>,
+  target: MachineVersionInfo,
+) {
+  const file = opts.file ?? defaultManifestFile;
+  if (!opts.file && !(await manifestExists(file))) {
+    console.warn(
+      `No project manifest at '${file}' so we can't check that the instance can be migrated to version '${target.id}'. Use --file to specify the manifest.`,
+    );
+    return;
+  }
+
+  const migrations = await loadMachineMigrations(file, opts.machine);
+  const { machineVersion } = await client.machineInstances.admin.get(
+    opts.machine,
+    opts.instance,
+  );
+
+  const [coverage] = migrationCoverage(migrations, versions, target, [
+    {
+      version:
+        versions.find((v) => v.id === machineVersion.id) ?? machineVersion,
+      instances: 1,
+    },
+  ]);
+  if (coverage.status === "unknown") {
+    console.warn(
+      `Other versions share a version reference with version '${machineVersion.id}' of instance '${opts.instance}' or the versions between it and '${target.id}', so we can't tell whether it can be migrated`,
+    );
+    return;
+  }
+  if (coverage.status === "stranded") {
+    throw new InvalidArgumentError(
+      `manifest '${file}' has no migrations from version '${
+        coverage.versionReference
+      }' (${machineVersion.id}) of instance '${opts.instance}' to '${
+        parseClientInfo(target.clientInfo).versionReference
+      }' (${
+        target.id
+      }), so the instance would never be upgraded. Add the missing migrations or pass --skip-migration-check.`,
+    );
+  }
+}
+
 async function sendEventToMachineInstance(
   opts: {
     machine: string;
@@ -157,29 +416,8 @@ async function sendEventToMachineInstance(
   },
   options: Command,
 ) {
-  if (
-    (!opts.token && !opts.authContext) ||
-    (!!opts.token && !!opts.authContext)
-  ) {
-    throw new InvalidArgumentError(
-      "One of --token or --auth-context is required",
-    );
-  }
-
-  const event = (() => {
-    try {
-      return opts.event.trimStart().startsWith("{")
-        ? JSON.parse(opts.event)
-        : opts.event;
-    } catch (err) {
-      return opts.event;
-    }
-  })();
-
-  const client = await getStatebackedClient(options, {
-    authContext: JSON.parse(opts.authContext),
-    token: opts.token,
-  });
+  const event = await readEvent(opts.event);
+  const client = await getActingClient(opts, options);
 
   const response = await client.machineInstances.sendEvent(
     opts.machine,
@@ -192,6 +430,57 @@ async function sendEventToMachineInstance(
   writeObj(response);
 }
 
+async function watchMachineInstance(
+  opts: {
+    machine: string;
+    instance: string;
+    token?: string;
+    authContext?: string;
+    exitOnState?: string;
+  },
+  options: Command,
+) {
+  const client = await getActingClient(opts, options);
+
+  let previous: { publicContext?: unknown } | undefined;
+  await new Promise<void>((resolve, reject) => {
+    // if the web socket closes for good, nothing keeps the process alive
+    const onConnectionLost = () => {
+      reject(new Error("lost the connection to the State Backed API"));
+    };
+    process.once("beforeExit", onConnectionLost);
+
+    const unsubscribe = client.machineInstances.subscribe(
+      opts.machine,
+      opts.instance,
+      (update) => {
+        writeObj({
+          ts: new Date(update.ts).toISOString(),
+          state: update.state,
+          tags: update.tags,
+          done: update.done,
+          publicContext: update.publicContext,
+          changes: previous
+            ? diff(previous.publicContext, update.publicContext)
+            : [],
+        });
+        previous = update;
+
+        if (opts.exitOnState && matchesState(update.state, opts.exitOnState)) {
+          process.off("beforeExit", onConnectionLost);
+          unsubscribe();
+          resolve();
+        }
+      },
+      (err) => {
+        process.off("beforeExit", onConnectionLost);
+        unsubscribe();
+        reject(err);
+      },
+    );
+  });
+}
+
 async function createMachineInstance(
   opts: {
     machine: string;
@@ -203,23 +492,11 @@ async function createMachineInstance(
   },
   options: Command,
 ) {
-  if (
-    (!opts.token && !opts.authContext) ||
-    (!!opts.token && !!opts.authContext)
-  ) {
-    throw new InvalidArgumentError(
-      "One of --token or --auth-context is required",
-    );
-  }
-
-  const client = await getStatebackedClient(options, {
-    authContext: JSON.parse(opts.authContext),
-    token: opts.token,
-  });
+  const client = await getActingClient(opts, options);
 
   const result = await client.machineInstances.create(opts.machine, {
     slug: opts.instance,
-    context: opts.context && JSON.parse(opts.context),
+    context: opts.context && (await readObjectInput(opts.context, "--context")),
     machineVersionId: opts.version,
   });
 
@@ -227,11 +504,17 @@ async function createMachineInstance(
 }
 
 async function getMachineInstance(
-  opts: { machine: string; instance: string },
+  opts: { machine: string; instance: string; at?: string },
   options: Command,
 ) {
+  const at = opts.at && parseTime(opts.at, "at");
   const client = await getStatebackedClient(options);
 
+  if (at) {
+    writeObj(await getInstanceStateAt(client, opts.machine, opts.instance, at));
+    return;
+  }
+
   const result = await client.machineInstances.admin.get(
     opts.machine,
     opts.instance,
@@ -251,50 +534,8 @@ async function listInstanceTransitions(
         cursor,
       }),
     (page) => page.transitions,
-  );
-}
-
-async function queryMachineInstances(
-  opts: PaginationOptions & {
-    machine: string;
-    index: string;
-    op?: "eq" | "ne" | "lt" | "lte" | "gt" | "gte";
-    value?: string;
-    sort?: "asc" | "desc";
-  },
-  options: Command,
-) {
-  if (opts.op && !["eq", "ne", "lt", "lte", "gt", "gte"].includes(opts.op)) {
-    throw new InvalidArgumentError(
-      "op must be one of 'eq', 'ne', 'lt', 'lte', 'gt', 'gte'",
-    );
-  }
-
-  if (opts.sort && !["asc", "desc"].includes(opts.sort)) {
-    throw new InvalidArgumentError("sort must be one of 'asc' or 'desc'");
-  }
-
-  if ((opts.op && !opts.value) || (!opts.op && opts.value)) {
-    throw new InvalidArgumentError(
-      "op and value must both be specified or neither must be specified",
-    );
-  }
-
-  const client = await getStatebackedClient(options);
-
-  await paginateWithCursor(
-    (cursor) =>
-      client.machineInstances.query(opts.machine, opts.index, {
-        dir: opts.sort,
-        op: opts.op,
-        value: opts.value,
-        cursor,
-      }),
-    (page) =>
-      page.instances.map((i) => ({
-        name: i.slug,
-        indexValue: i.indexValue,
-      })),
+    opts,
+    ["createdAt", "state", "event"],
   );
 }
 
@@ -316,6 +557,8 @@ async function listMachineInstances(
         machineVersion: i.machineVersion,
         status: i.status,
       })),
+    opts,
+    ["name", "status", "machineVersion.clientInfo", "createdAt"],
   );
 }
 
@@ -1,5 +1,9 @@
 import { Command, InvalidArgumentError } from "commander";
-import { PaginationOptions, paginateWithCursor } from "../paginator.js";
+import {
+  PaginationOptions,
+  paginateWithCursor,
+  withPaginationOptions,
+} from "../paginator.js";
 import { getStatebackedClient, writeObj } from "../utils.js";
 
 const allowedScopes = [
@@ -38,7 +42,9 @@ export function addKeysCommands(cmd: Command) {
     .requiredOption("-n, --name <name>", "Name for the key")
     .action(createKey);
 
-  keys.command("list").description("List API keys").action(listKeys);
+  withPaginationOptions(
+    keys.command("list").description("List API keys"),
+  ).action(listKeys);
 
   keys
     .command("delete")
@@ -53,6 +59,8 @@ async function listKeys(opts: PaginationOptions, options: Command) {
   await paginateWithCursor(
     (cursor) => client.keys.list({ cursor }),
     (k) => k.keys,
+    opts,
+    ["id", "name", "scopes", "createdAt"],
   );
 }
 
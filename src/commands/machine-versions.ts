@@ -1,9 +1,16 @@
 import { spawn } from "node:child_process";
+import { createHash } from "node:crypto";
 import { copyFile, mkdtemp, rmdir, unlink, writeFile } from "node:fs/promises";
 import * as path from "node:path";
 import * as os from "node:os";
 import { Command, InvalidArgumentError } from "commander";
-import { PaginationOptions, paginateWithCursor } from "../paginator.js";
+import { StateBackedClient } from "@statebacked/client";
+import {
+  PaginationOptions,
+  getAllItems,
+  paginateWithCursor,
+  withPaginationOptions,
+} from "../paginator.js";
 import {
   getStatebackedClient,
   writeObj,
@@ -11,6 +18,22 @@ import {
   BuildOpts,
   buildFromCommand,
 } from "../utils.js";
+import { watch } from "../build.js";
+import { readObjectInput } from "../input.js";
+import { loadBundle } from "../emulator.js";
+import { machineStructure } from "../visualize.js";
+import {
+  bundleHash,
+  compareFingerprints,
+  parseClientInfo,
+  versionFingerprint,
+  withFingerprint,
+} from "../manifest.js";
+import {
+  getPublishableGitInfo,
+  gitProvenance,
+  gitVersionReference,
+} from "../git.js";
 
 export function addMachineVersionsCommands(cmd: Command) {
   const machineVersions = cmd
@@ -21,9 +44,9 @@ export function addMachineVersionsCommands(cmd: Command) {
     .command("create")
     .description("Create a new version of a machine definition")
     .requiredOption("-m, --machine <machine>", "Machine name (required)")
-    .requiredOption(
+    .option(
       "-r, --version-reference <versionReference>",
-      "Name for the version. E.g. git commit sha or semantic version identifier.",
+      "Name for the version. E.g. semantic version identifier. Defaults to the tag or commit SHA checked out in the git repository containing the machine definition.",
     )
     .option(
       "-j, --js <file>",
@@ -43,13 +66,96 @@ export function addMachineVersionsCommands(cmd: Command) {
       false,
     )
     .option("-s, --skip-validation", "Don't validate the bundle", false)
+    .option(
+      "-w, --watch",
+      "Watch the --node entrypoint and any files it imports and publish a new version each time they change. Each version reference is suffixed with a counter and a hash of the bundle. Implies --allow-dirty.",
+      false,
+    )
+    .option(
+      "--allow-dirty",
+      "Publish a machine definition from a git repository with uncommitted changes",
+      false,
+    )
     .action(createMachineVersion);
 
+  withPaginationOptions(
+    machineVersions
+      .command("list")
+      .description("List versions of a machine definition")
+      .requiredOption("-m, --machine <machine>", "Machine name (required)"),
+  ).action(listMachineVersions);
+
   machineVersions
-    .command("list")
-    .description("List versions of a machine definition")
+    .command("get")
+    .description(
+      "Get a machine version, whether it is the current version, and the instances on it",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .requiredOption(
+      "-v, --version <version>",
+      "Machine version ID or version reference (required)",
+    )
+    .action(getMachineVersion);
+
+  machineVersions
+    .command("set-current")
+    .description(
+      "Make an existing version the current version for new instances. The State Backed API only sets the current version when a version is published, so we republish the version's source as a new current version with a new version ID and the same version reference. " +
+        "The source must build to the same code (and --index-selectors must match) as the version, which we check for versions that smply recorded a fingerprint for. Instances keep their old version ID. " +
+        "Afterwards, the version reference resolves to the newest of the versions published with it.",
+    )
     .requiredOption("-m, --machine <machine>", "Machine name (required)")
-    .action(listMachineVersions);
+    .requiredOption(
+      "-v, --version <version>",
+      "Machine version ID or version reference to make current (required)",
+    )
+    .option(
+      "-j, --js <file>",
+      "Path to the single javascript file that exports the version's machine definition. Exactly one of --js or --node must be specified.",
+    )
+    .option(
+      "-n, --node <file>",
+      "Path to the Node.js entrypoint for the version's machine definition. Exactly one of --js or --node must be specified.",
+    )
+    .option(
+      "-d, --index-selectors <indexSelectors>",
+      "JSON object mapping index names to the JSON path expressions the version was published with",
+    )
+    .option("-s, --skip-validation", "Don't validate the bundle", false)
+    .action(setCurrentMachineVersion);
+
+  machineVersions
+    .command("diff")
+    .description(
+      "Compare two versions of a machine. Versions published with smply record a fingerprint of their code and index selectors, which tells us whether either changed. " +
+        "The State Backed API does not return the code for a version, so to compare the states and transitions of the two definitions, provide the source for each version with --from-js or --from-node and --to-js or --to-node (e.g. from a checkout of each release).",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .requiredOption(
+      "--from <version>",
+      "Machine version ID or version reference to compare from (required)",
+    )
+    .requiredOption(
+      "--to <version>",
+      "Machine version ID or version reference to compare to (required)",
+    )
+    .option(
+      "--from-js <file>",
+      "Path to the single javascript file that exports the machine definition for the --from version",
+    )
+    .option(
+      "--from-node <file>",
+      "Path to the Node.js entrypoint for the machine definition for the --from version",
+    )
+    .option(
+      "--to-js <file>",
+      "Path to the single javascript file that exports the machine definition for the --to version",
+    )
+    .option(
+      "--to-node <file>",
+      "Path to the Node.js entrypoint for the machine definition for the --to version",
+    )
+    .action(diffMachineVersions);
 
   machineVersions
     .command("validate-bundle")
@@ -122,21 +228,314 @@ async function listMachineVersions(
   await paginateWithCursor(
     (cursor) => client.machineVersions.list(opts.machine, { cursor }),
     (page) => page.versions,
+    opts,
+    ["id", "clientInfo", "createdAt"],
+  );
+}
+
+export type MachineVersionInfo = {
+  id: string;
+  clientInfo: string;
+  createdAt: string;
+};
+
+export function getAllMachineVersions(
+  client: StateBackedClient,
+  machine: string,
+) {
+  return getAllItems(
+    (cursor) => client.machineVersions.list(machine, { cursor }),
+    (page) => page.versions as Array<MachineVersionInfo>,
+  );
+}
+
+/**
+ * Find a version by ID or, failing that, by client info or version reference.
+ * set-current and rollback republish versions under the same reference, so a
+ * reference that matches several versions with the same fingerprint resolves
+ * to the newest of them.
+ */
+export function findMachineVersion(
+  versions: Array<MachineVersionInfo>,
+  machine: string,
+  ref: string,
+) {
+  const byId = versions.find((v) => v.id === ref);
+  if (byId) {
+    return byId;
+  }
+
+  const matches = versions.filter(
+    (v) =>
+      v.clientInfo === ref ||
+      parseClientInfo(v.clientInfo).versionReference === ref,
+  );
+  if (matches.length === 0) {
+    throw new InvalidArgumentError(
+      `no version of '${machine}' has the ID or version reference '${ref}'`,
+    );
+  }
+  const fingerprint = parseClientInfo(matches[0].clientInfo).fingerprint;
+  const republished =
+    !!fingerprint &&
+    matches.every(
+      (v) => parseClientInfo(v.clientInfo).fingerprint === fingerprint,
+    );
+  if (matches.length > 1 && !republished) {
+    throw new InvalidArgumentError(
+      `'${ref}' matches ${matches.length} versions of '${machine}'. Use a version ID.`,
+    );
+  }
+  return matches.reduce((newest, v) =>
+    v.createdAt > newest.createdAt ? v : newest,
+  );
+}
+
+function describeMachineVersion(
+  version: MachineVersionInfo,
+  currentVersionId: string | undefined,
+) {
+  return {
+    id: version.id,
+    clientInfo: version.clientInfo,
+    ...parseClientInfo(version.clientInfo),
+    createdAt: version.createdAt,
+    current: version.id === currentVersionId,
+  };
+}
+
+async function getMachineVersion(
+  opts: { machine: string; version: string },
+  options: Command,
+) {
+  const client = await getStatebackedClient(options);
+
+  const [versions, { machine }] = await Promise.all([
+    getAllMachineVersions(client, opts.machine),
+    client.machines.get(opts.machine),
+  ]);
+  const version = findMachineVersion(versions, opts.machine, opts.version);
+
+  const instances = await getAllItems(
+    (cursor) => client.machineInstances.list(opts.machine, { cursor }),
+    (page) =>
+      page.instances
+        .filter((i) => i.machineVersion?.id === version.id)
+        .map((i) => i.slug),
+  );
+
+  writeObj({
+    ...describeMachineVersion(version, machine.currentVersion?.id),
+    instanceCount: instances.length,
+    instances,
+  });
+}
+
+/**
+ * Publish the source for an existing version as a new current version with
+ * the same version reference.
+ */
+export async function republishMachineVersion(
+  opts: BuildOpts & {
+    machine: string;
+    version: MachineVersionInfo;
+    indexSelectors?: Record<string, string>;
+    skipValidation: boolean;
+  },
+  options: Command,
+) {
+  const code = await buildFromCommand(opts);
+  const fingerprint = versionFingerprint(code.code, opts.indexSelectors);
+  const {
+    versionReference,
+    commit,
+    fingerprint: published,
+  } = parseClientInfo(opts.version.clientInfo);
+
+  if (published) {
+    const { codeChanged, indexSelectorsChanged } = compareFingerprints(
+      published,
+      fingerprint,
+    );
+    if (codeChanged) {
+      throw new InvalidArgumentError(
+        `the source does not build to the code in version '${opts.version.id}'`,
+      );
+    }
+    if (indexSelectorsChanged) {
+      throw new InvalidArgumentError(
+        `--index-selectors do not match the index selectors of version '${opts.version.id}'`,
+      );
+    }
+  } else {
+    console.warn(
+      `Version '${opts.version.id}' has no fingerprint so we can't check that the source matches it`,
+    );
+  }
+
+  const { machineVersionId } = await publishMachineVersion(
+    code,
+    {
+      machine: opts.machine,
+      versionReference,
+      // the code matches so the republished version has the same provenance
+      commit,
+      makeCurrent: true,
+      skipValidation: opts.skipValidation,
+      indexSelectors: opts.indexSelectors,
+      quiet: true,
+    },
+    options,
+  );
+
+  return { machineVersionId, versionReference };
+}
+
+async function setCurrentMachineVersion(
+  opts: BuildOpts & {
+    machine: string;
+    version: string;
+    indexSelectors?: string;
+    skipValidation: boolean;
+  },
+  options: Command,
+) {
+  const client = await getStatebackedClient(options);
+  const version = findMachineVersion(
+    await getAllMachineVersions(client, opts.machine),
+    opts.machine,
+    opts.version,
+  );
+
+  const { machineVersionId, versionReference } = await republishMachineVersion(
+    {
+      ...opts,
+      version,
+      indexSelectors:
+        opts.indexSelectors &&
+        (await readObjectInput(opts.indexSelectors, "--index-selectors")),
+    },
+    options,
   );
+
+  writeObj({
+    currentVersion: machineVersionId,
+    versionReference,
+    republishedFrom: version.id,
+  });
+}
+
+async function loadLocalDefinition(js: string, node: string) {
+  const code = await buildFromCommand({ js, node });
+  const { machine } = await loadBundle(code.bundled);
+
+  return {
+    codeFingerprint: versionFingerprint(code.code).split(".")[0],
+    structure: machineStructure(machine),
+  };
+}
+
+function diffLists(from: Array<string>, to: Array<string>) {
+  return {
+    added: to.filter((item) => !from.includes(item)),
+    removed: from.filter((item) => !to.includes(item)),
+  };
+}
+
+async function diffMachineVersions(
+  opts: {
+    machine: string;
+    from: string;
+    to: string;
+    fromJs?: string;
+    fromNode?: string;
+    toJs?: string;
+    toNode?: string;
+  },
+  options: Command,
+) {
+  const hasFromSource = !!(opts.fromJs || opts.fromNode);
+  const hasToSource = !!(opts.toJs || opts.toNode);
+  if (hasFromSource !== hasToSource) {
+    throw new InvalidArgumentError(
+      "provide the source for both versions (--from-js or --from-node and --to-js or --to-node) or neither",
+    );
+  }
+
+  const client = await getStatebackedClient(options);
+
+  const [versions, { machine }] = await Promise.all([
+    getAllMachineVersions(client, opts.machine),
+    client.machines.get(opts.machine),
+  ]);
+  const from = describeMachineVersion(
+    findMachineVersion(versions, opts.machine, opts.from),
+    machine.currentVersion?.id,
+  );
+  const to = describeMachineVersion(
+    findMachineVersion(versions, opts.machine, opts.to),
+    machine.currentVersion?.id,
+  );
+
+  const result: Record<string, unknown> = { from, to };
+
+  if (from.fingerprint && to.fingerprint) {
+    result.fingerprints = compareFingerprints(from.fingerprint, to.fingerprint);
+  } else {
+    console.warn(
+      "Only versions published with smply have fingerprints, so we can't tell whether the code or index selectors changed.",
+    );
+  }
+
+  if (hasFromSource) {
+    const [fromSource, toSource] = await Promise.all([
+      loadLocalDefinition(opts.fromJs, opts.fromNode),
+      loadLocalDefinition(opts.toJs, opts.toNode),
+    ]);
+
+    for (const [version, source, flag] of [
+      [from, fromSource, "--from"],
+      [to, toSource, "--to"],
+    ] as const) {
+      const deployedCode = version.fingerprint?.split(".")[0];
+      if (deployedCode && deployedCode !== source.codeFingerprint) {
+        console.warn(
+          `The ${flag} source does not build to the code deployed in version '${version.id}'`,
+        );
+      }
+    }
+
+    result.structure = {
+      codeChanged: fromSource.codeFingerprint !== toSource.codeFingerprint,
+      states: diffLists(fromSource.structure.states, toSource.structure.states),
+      initialStates: diffLists(
+        fromSource.structure.initialStates,
+        toSource.structure.initialStates,
+      ),
+      transitions: diffLists(
+        fromSource.structure.transitions,
+        toSource.structure.transitions,
+      ),
+    };
+  }
+
+  writeObj(result);
 }
 
 async function createMachineVersion(
   opts: BuildOpts & {
     machine: string;
-    versionReference: string;
+    versionReference?: string;
     makeCurrent: boolean;
     skipValidation: boolean;
     indexSelectors?: string;
+    watch: boolean;
+    allowDirty: boolean;
   },
   options: Command,
 ) {
   const indexSelectors = opts.indexSelectors
-    ? JSON.parse(opts.indexSelectors)
+    ? await readObjectInput(opts.indexSelectors, "--index-selectors")
     : undefined;
 
   if (
@@ -148,28 +547,133 @@ async function createMachineVersion(
     );
   }
 
+  const { versionReference, commit } = await resolvePublishedReference({
+    ...opts,
+    allowDirty: opts.allowDirty || opts.watch,
+  });
+
+  if (opts.watch) {
+    await watchMachineVersions(
+      { ...opts, versionReference, commit, indexSelectors },
+      options,
+    );
+    return;
+  }
+
   await silencableCreateMachineVersion(
     {
       ...opts,
+      versionReference,
+      commit,
       indexSelectors,
     },
     options,
   );
 }
 
-export async function silencableCreateMachineVersion(
+/**
+ * The version reference to publish a machine definition with and the commit
+ * it is built from. Without an explicit reference, we derive one from the git
+ * repository containing the entrypoint.
+ */
+export async function resolvePublishedReference(
   opts: BuildOpts & {
-    machine: string;
-    versionReference: string;
-    makeCurrent: boolean;
-    skipValidation: boolean;
-    indexSelectors?: Record<string, string>;
-    quiet?: boolean;
+    versionReference?: string;
+    defaultVersionReference?: string;
+    allowDirty: boolean;
   },
+) {
+  const entrypoint = opts.js ?? opts.node ?? opts.deno;
+  const git =
+    entrypoint && (await getPublishableGitInfo(entrypoint, opts.allowDirty));
+
+  const versionReference =
+    opts.versionReference ??
+    (git ? gitVersionReference(git) : opts.defaultVersionReference);
+  if (!versionReference) {
+    throw new InvalidArgumentError(
+      "--version-reference is required outside of a git repository",
+    );
+  }
+
+  return {
+    versionReference,
+    commit: git ? gitProvenance(git) : undefined,
+  };
+}
+
+type CreateMachineVersionOpts = {
+  machine: string;
+  versionReference: string;
+  commit?: string;
+  makeCurrent: boolean;
+  skipValidation: boolean;
+  indexSelectors?: Record<string, string>;
+  quiet?: boolean;
+};
+
+export async function silencableCreateMachineVersion(
+  opts: BuildOpts & CreateMachineVersionOpts,
   options: Command,
 ) {
   const code = await buildFromCommand(opts);
+
+  return publishMachineVersion(code, opts, options);
+}
+
+/**
+ * Publish a new version each time the --node (or --deno) entrypoint or
+ * anything it imports changes. Rebuilds that produce an identical bundle are
+ * not published.
+ */
+export async function watchMachineVersions(
+  opts: BuildOpts & CreateMachineVersionOpts,
+  options: Command,
+) {
+  if (opts.js || (!opts.node && !opts.deno)) {
+    throw new InvalidArgumentError("--watch requires --node");
+  }
+
+  let count = 0;
+  let lastHash: string | undefined;
+
+  await watch(
+    opts.node ?? opts.deno,
+    opts.node ? "node" : "deno",
+    async (code) => {
+      const hash = createHash("sha256").update(code.code).digest("hex");
+      if (hash === lastHash) {
+        return;
+      }
+
+      count++;
+      const shortHash = hash.slice(0, 8);
+      const versionReference = `${opts.versionReference}.${count}-${shortHash}`;
+
+      await publishMachineVersion(
+        code,
+        { ...opts, versionReference, quiet: false },
+        options,
+      );
+
+      lastHash = hash;
+    },
+  );
+
+  console.error(`Watching '${opts.node ?? opts.deno}' for changes...`);
+}
+
+export async function publishMachineVersion(
+  code: Awaited<ReturnType<typeof buildFromCommand>>,
+  opts: CreateMachineVersionOpts,
+  options: Command,
+) {
   const gzippedCode = await gzip(code.code);
+  const clientInfo = withFingerprint(
+    opts.versionReference,
+    versionFingerprint(code.code, opts.indexSelectors),
+    { commit: opts.commit, bundleHash: bundleHash(gzippedCode) },
+  );
 
   if (!opts.skipValidation) {
     const tmpDir = await mkdtemp(path.join(os.tmpdir(), opts.machine));
@@ -186,7 +690,7 @@ export async function silencableCreateMachineVersion(
   const client = await getStatebackedClient(options);
 
   const version = await client.machineVersions.create(opts.machine, {
-    clientInfo: opts.versionReference,
+    clientInfo,
     makeCurrent: opts.makeCurrent,
     gzippedCode,
     indexSelectors: opts.indexSelectors,
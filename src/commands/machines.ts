@@ -1,18 +1,49 @@
 import { Command, InvalidArgumentError } from "commander";
-import { BuildOpts, getStatebackedClient, prompt, writeObj } from "../utils.js";
-import { PaginationOptions, paginateWithCursor } from "../paginator.js";
-import { silencableCreateMachineVersion } from "./machine-versions.js";
+import * as fs from "node:fs/promises";
+import {
+  BuildOpts,
+  buildFromCommand,
+  getStatebackedClient,
+  nonNegativeInteger,
+  positiveInteger,
+  prompt,
+  writeObj,
+} from "../utils.js";
+import {
+  PaginationOptions,
+  getAllItems,
+  paginateWithCursor,
+  withPaginationOptions,
+} from "../paginator.js";
+import {
+  findMachineVersion,
+  getAllMachineVersions,
+  republishMachineVersion,
+  resolvePublishedReference,
+  silencableCreateMachineVersion,
+  watchMachineVersions,
+} from "./machine-versions.js";
+import { uploadMigrations } from "./deploy.js";
+import {
+  defaultManifestFile,
+  loadManifest,
+  manifestExists,
+  parseClientInfo,
+} from "../manifest.js";
+import { runBatch, writeProgress } from "../batch.js";
 import { errors } from "@statebacked/client";
+import { loadBundle } from "../emulator.js";
+import { DiagramFormat, diagramFormats, visualize } from "../visualize.js";
+import { readObjectInput } from "../input.js";
 
 export function addMachineCommands(cmd: Command) {
   const machines = cmd
     .command("machines")
     .description("Manage state machine definitions");
 
-  machines
-    .command("list")
-    .description("List machine definitions")
-    .action(listMachines);
+  withPaginationOptions(
+    machines.command("list").description("List machine definitions"),
+  ).action(listMachines);
 
   machines
     .command("get")
@@ -47,8 +78,7 @@ export function addMachineCommands(cmd: Command) {
     )
     .option(
       "-r, --version-reference <versionReference>",
-      "Name for the first version of the machine. E.g. git commit sha or semantic version identifier.",
-      "0.0.1",
+      "Name for the first version of the machine. E.g. semantic version identifier. Defaults to the tag or commit SHA checked out in the git repository containing the machine definition or '0.0.1' outside of git.",
     )
     .option(
       "-j, --js <file>",
@@ -63,6 +93,16 @@ export function addMachineCommands(cmd: Command) {
       "Don't validate the bundle. Only valid if --js or --node is specified.",
       false,
     )
+    .option(
+      "-w, --watch",
+      "After creating the machine, watch the --node entrypoint and any files it imports and publish a new current version each time they change. Only valid if --node is specified. Implies --allow-dirty.",
+      false,
+    )
+    .option(
+      "--allow-dirty",
+      "Publish a machine definition from a git repository with uncommitted changes",
+      false,
+    )
     .action(createMachine);
 
   machines
@@ -72,6 +112,280 @@ export function addMachineCommands(cmd: Command) {
     )
     .requiredOption("-m, --machine <machine>", "Machine name (required)")
     .action(deleteMachine);
+
+  machines
+    .command("rollback")
+    .description(
+      "Point a machine back at an earlier version by republishing that version's source as the current version with a new version ID and the same version reference (see 'smply machine-versions set-current'). " +
+        "Lists the instances on the version being rolled back and, with --migrate-instances, sets their desired version to the republished version using the migrations in the project manifest.",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .option(
+      "-v, --version <version>",
+      "Machine version ID or version reference to roll back to. Defaults to the newest version created before the current version.",
+    )
+    .option(
+      "-j, --js <file>",
+      "Path to the single javascript file that exports the machine definition of the version to roll back to. Exactly one of --js or --node must be specified.",
+    )
+    .option(
+      "-n, --node <file>",
+      "Path to the Node.js entrypoint for the machine definition of the version to roll back to. Exactly one of --js or --node must be specified.",
+    )
+    .option(
+      "-d, --index-selectors <indexSelectors>",
+      "JSON object mapping index names to the JSON path expressions the version to roll back to was published with",
+    )
+    .option(
+      "-f, --file <file>",
+      `Path to the project manifest. Its migrations into the version to roll back to are uploaded for the republished version. Defaults to '${defaultManifestFile}' if it exists.`,
+    )
+    .option(
+      "--migrate-instances",
+      "Set the desired version of the instances on the rolled back version to the republished version. Requires a migration in the manifest directly from the version being rolled back to the version to roll back to.",
+      false,
+    )
+    .option(
+      "--concurrency <concurrency>",
+      "Maximum number of instances to update at once",
+      positiveInteger("concurrency"),
+      10,
+    )
+    .option(
+      "--retries <retries>",
+      "Number of times to retry updating an instance after a network, rate limit, or server error",
+      nonNegativeInteger("retries"),
+      3,
+    )
+    .option("-s, --skip-validation", "Don't validate the bundle", false)
+    .action(rollbackMachine);
+
+  machines
+    .command("visualize")
+    .description(
+      "Draw the statechart for a machine definition as a Mermaid state diagram, Graphviz DOT, or SVG (rendered with Graphviz's 'dot' command). " +
+        "The State Backed API does not return the code for deployed versions, so the definition must be provided with --js or --node. --machine only identifies the instance to highlight.",
+    )
+    .option(
+      "-j, --js <file>",
+      "Path to the single javascript file that exports the machine definition. Exactly one of --js or --node must be specified.",
+    )
+    .option(
+      "-n, --node <file>",
+      "Path to the Node.js entrypoint to use as the machine definition. Exactly one of --js or --node must be specified.",
+    )
+    .option(
+      "-f, --format <format>",
+      `Diagram format. One of ${diagramFormats
+        .map((f) => `'${f}'`)
+        .join(", ")}.`,
+      (format: string) => {
+        if (!diagramFormats.includes(format)) {
+          throw new InvalidArgumentError(
+            `format must be one of ${diagramFormats.join(", ")}`,
+          );
+        }
+        return format;
+      },
+      "mermaid",
+    )
+    .option(
+      "-m, --machine <machine>",
+      "Machine name. Required if --instance is specified.",
+    )
+    .option(
+      "-i, --instance <instance>",
+      "Highlight the current state of this instance",
+    )
+    .option("--out <file>", "Write the diagram to this file instead of stdout")
+    .action(visualizeMachine);
+}
+
+async function rollbackMachine(
+  opts: BuildOpts & {
+    machine: string;
+    version?: string;
+    indexSelectors?: string;
+    file?: string;
+    migrateInstances: boolean;
+    concurrency: number;
+    retries: number;
+    skipValidation: boolean;
+  },
+  options: Command,
+) {
+  const file = opts.file ?? defaultManifestFile;
+  const manifest =
+    opts.file || opts.migrateInstances || (await manifestExists(file))
+      ? await loadManifest(file)
+      : undefined;
+  const migrations = manifest?.machines[opts.machine]?.migrations ?? [];
+  const indexSelectors =
+    opts.indexSelectors &&
+    (await readObjectInput(opts.indexSelectors, "--index-selectors"));
+
+  const client = await getStatebackedClient(options);
+  const { machine } = await client.machines.get(opts.machine);
+  const current = machine.currentVersion;
+  if (!current) {
+    throw new InvalidArgumentError(
+      `machine '${opts.machine}' has no current version`,
+    );
+  }
+
+  const versions = (await getAllMachineVersions(client, opts.machine)).sort(
+    (a, b) => b.createdAt.localeCompare(a.createdAt),
+  );
+  const currentReference = parseClientInfo(current.clientInfo).versionReference;
+  const target = opts.version
+    ? findMachineVersion(versions, opts.machine, opts.version)
+    : versions.find(
+        (v) =>
+          v.createdAt < current.createdAt &&
+          parseClientInfo(v.clientInfo).versionReference !== currentReference,
+      );
+  if (!target) {
+    throw new InvalidArgumentError(
+      `machine '${opts.machine}' has no version before its current version`,
+    );
+  }
+
+  const targetReference = parseClientInfo(target.clientInfo).versionReference;
+  // we only upload migrations into the republished version, so instances can
+  // only be migrated by a single migration from the current version
+  if (
+    opts.migrateInstances &&
+    !migrations.some(
+      (m) => m.from === currentReference && m.to === targetReference,
+    )
+  ) {
+    throw new InvalidArgumentError(
+      `manifest '${file}' has no migration from '${currentReference}' to '${targetReference}'`,
+    );
+  }
+
+  const instances = await getAllItems(
+    (cursor) => client.machineInstances.list(opts.machine, { cursor }),
+    (page) =>
+      page.instances
+        .filter((i) => i.machineVersion?.id === current.id)
+        .map((i) => i.slug),
+  );
+  console.error(
+    `${instances.length} instance(s) are on version '${currentReference}' (${current.id})`,
+  );
+
+  const { machineVersionId } = await republishMachineVersion(
+    {
+      ...opts,
+      version: target,
+      indexSelectors,
+    },
+    options,
+  );
+
+  const uploadedMigrations = await uploadMigrations(
+    client,
+    opts.machine,
+    migrations,
+    versions,
+    targetReference,
+    machineVersionId,
+  );
+
+  if (
+    opts.migrateInstances &&
+    !uploadedMigrations.some((m) => m.from === current.id)
+  ) {
+    throw new InvalidArgumentError(
+      `no migration from version '${current.id}' was uploaded for republished version '${machineVersionId}', so its instances can't be migrated`,
+    );
+  }
+
+  const migrated = opts.migrateInstances
+    ? await runBatch(
+        instances,
+        (instance) =>
+          client.machineInstances.admin.updateDesiredVersion(
+            opts.machine,
+            instance,
+            { targetMachineVersionId: machineVersionId },
+          ),
+        {
+          concurrency: opts.concurrency,
+          retries: opts.retries,
+          onProgress: writeProgress("Updated"),
+        },
+      )
+    : [];
+
+  writeObj({
+    machine: opts.machine,
+    rolledBackFrom: { id: current.id, versionReference: currentReference },
+    currentVersion: {
+      id: machineVersionId,
+      versionReference: targetReference,
+      republishedFrom: target.id,
+    },
+    migrations: uploadedMigrations,
+    instances: instances.map((name, i) => ({
+      name,
+      ...(opts.migrateInstances
+        ? migrated[i].ok
+          ? { desiredVersion: machineVersionId }
+          : { error: migrated[i].error }
+        : {}),
+    })),
+  });
+
+  if (migrated.some((r) => !r.ok)) {
+    console.error(
+      `Failed to set the desired version for ${
+        migrated.filter((r) => !r.ok).length
+      } instance(s)`,
+    );
+    process.exitCode = 1;
+  }
+}
+
+async function visualizeMachine(
+  opts: BuildOpts & {
+    format: DiagramFormat;
+    machine?: string;
+    instance?: string;
+    out?: string;
+  },
+  options: Command,
+) {
+  if (opts.instance && !opts.machine) {
+    throw new InvalidArgumentError("--instance requires --machine");
+  }
+
+  if (opts.machine && !opts.js && !opts.node && !opts.deno) {
+    throw new InvalidArgumentError(
+      "The State Backed API does not return the code for deployed versions, so they can't be visualized. Provide the machine definition with --js or --node.",
+    );
+  }
+
+  const code = await buildFromCommand(opts);
+  const { machine } = await loadBundle(code.bundled);
+
+  const currentState = opts.instance
+    ? (
+        await (
+          await getStatebackedClient(options)
+        ).machineInstances.admin.get(opts.machine, opts.instance)
+      ).state
+    : undefined;
+
+  const diagram = await visualize(machine, opts.format, currentState);
+
+  if (opts.out) {
+    await fs.writeFile(opts.out, diagram, { encoding: "utf8" });
+    return;
+  }
+
+  process.stdout.write(diagram);
 }
 
 async function getMachine(opts: { machine: string }, options: Command) {
@@ -93,6 +407,8 @@ async function listMachines(opts: PaginationOptions, options: Command) {
         createdAt: m.createdAt,
         currentVersion: m.currentVersion,
       })),
+    opts,
+    ["name", "currentVersion.clientInfo", "createdAt"],
   );
 }
 
@@ -103,13 +419,30 @@ async function createMachine(
     skipValidation: boolean;
     index?: string[];
     indexSelectors?: string;
+    watch: boolean;
+    allowDirty: boolean;
   },
   options: Command,
 ) {
+  if (opts.watch && !opts.node && !opts.deno) {
+    throw new InvalidArgumentError("--watch requires --node");
+  }
+
+  const hasSource = !!(opts.js || opts.node || opts.deno);
+  // resolved before creating the machine so that we don't leave a machine
+  // without a version behind if we refuse to publish from a dirty tree
+  const { versionReference, commit } = hasSource
+    ? await resolvePublishedReference({
+        ...opts,
+        defaultVersionReference: "0.0.1",
+        allowDirty: opts.allowDirty || opts.watch,
+      })
+    : { versionReference: undefined, commit: undefined };
+
   const client = await getStatebackedClient(options);
 
   const indexSelectors = opts.indexSelectors
-    ? JSON.parse(opts.indexSelectors)
+    ? await readObjectInput(opts.indexSelectors, "--index-selectors")
     : undefined;
   if (
     indexSelectors &&
@@ -131,11 +464,30 @@ async function createMachine(
     currentVersion: undefined,
   };
 
-  if (opts.js || opts.node || opts.deno) {
+  if (opts.watch) {
+    writeObj(output);
+    await watchMachineVersions(
+      {
+        machine: opts.machine,
+        versionReference,
+        commit,
+        node: opts.node,
+        deno: opts.deno,
+        skipValidation: opts.skipValidation,
+        indexSelectors,
+        makeCurrent: true,
+      },
+      options,
+    );
+    return;
+  }
+
+  if (hasSource) {
     output.currentVersion = await silencableCreateMachineVersion(
       {
         machine: opts.machine,
-        versionReference: opts.versionReference ?? "0.0.1",
+        versionReference,
+        commit,
         js: opts.js,
         node: opts.node,
         deno: opts.deno,
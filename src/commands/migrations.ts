@@ -1,4 +1,4 @@
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 import {
   BuildOpts,
   buildFromCommand,
@@ -6,6 +6,21 @@ import {
   gzip,
   writeObj,
 } from "../utils.js";
+import { getAllItems } from "../paginator.js";
+import { createItemWriter } from "../output.js";
+import {
+  MigrationManifest,
+  defaultManifestFile,
+  findVersionPath,
+  loadManifest,
+  manifestMigrationEdges,
+  parseClientInfo,
+} from "../manifest.js";
+import {
+  MachineVersionInfo,
+  findMachineVersion,
+  getAllMachineVersions,
+} from "./machine-versions.js";
 
 export function addMigrationsCommands(cmd: Command) {
   const migrations = cmd
@@ -33,6 +48,148 @@ export function addMigrationsCommands(cmd: Command) {
       "Path to the Node.js entrypoint that exports upgradeState and upgradeContext functions. We will build the file into a single, self-contained ECMAScript module. Exactly one of --js or --node must be specified.",
     )
     .action(createMachineVersionMigration);
+
+  migrations
+    .command("plan")
+    .description(
+      "Check whether the instances on every version of a machine can be upgraded to a target version. For each version with instances, we look for a chain of migrations to the target version and report the gaps that would strand instances on their current version. " +
+        "The State Backed API does not list migrations, so the report is based on the migrations in the project manifest and assumes that 'smply deploy' uploaded them for every version. " +
+        "When several versions share a version reference (e.g. after 'smply machine-versions set-current'), we can't tell which of them have migrations, so their status is 'unknown'. Exits with a non-zero status if any instances would be stranded.",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .requiredOption(
+      "--to <version>",
+      "Machine version ID or version reference to upgrade to (required)",
+    )
+    .option(
+      "-f, --file <file>",
+      "Path to the project manifest",
+      defaultManifestFile,
+    )
+    .action(planMigrations);
+}
+
+export type MigrationCoverage = {
+  version: string;
+  versionReference: string;
+  instances: number;
+  path?: Array<string>;
+  status: "covered" | "stranded" | "unknown";
+};
+
+/**
+ * For each version with instances, the chain of version IDs that the
+ * manifest's migrations would upgrade its instances through to reach `target`.
+ * `allVersions` are every version of the machine, which we need to
+ * reconstruct the uploaded migrations. If a version on the way shares its
+ * version reference with another version, the reconstruction may be wrong,
+ * so the status is unknown.
+ */
+export function migrationCoverage(
+  migrations: Array<MigrationManifest>,
+  allVersions: Array<MachineVersionInfo>,
+  target: MachineVersionInfo,
+  versions: Array<{ version: MachineVersionInfo; instances: number }>,
+): Array<MigrationCoverage> {
+  const edges = manifestMigrationEdges(migrations, allVersions);
+  const references = new Map(
+    allVersions.map((v) => [
+      v.id,
+      parseClientInfo(v.clientInfo).versionReference,
+    ]),
+  );
+  const shared = (id: string) =>
+    allVersions.filter(
+      (v) => v.id !== id && references.get(v.id) === references.get(id),
+    ).length > 0;
+
+  return versions.map(({ version, instances }) => {
+    const path = findVersionPath(edges, version.id, target.id);
+
+    return {
+      version: version.id,
+      versionReference: parseClientInfo(version.clientInfo).versionReference,
+      instances,
+      path,
+      status: (path ?? [version.id]).some(shared)
+        ? "unknown"
+        : path
+        ? "covered"
+        : "stranded",
+    };
+  });
+}
+
+/**
+ * The migrations for `machine` in the project manifest.
+ */
+export async function loadMachineMigrations(file: string, machine: string) {
+  const manifest = await loadManifest(file);
+  if (!manifest.machines[machine]) {
+    throw new InvalidArgumentError(
+      `machine '${machine}' is not in manifest '${file}'`,
+    );
+  }
+
+  return manifest.machines[machine].migrations ?? [];
+}
+
+async function planMigrations(
+  opts: { machine: string; to: string; file: string },
+  options: Command,
+) {
+  const migrations = await loadMachineMigrations(opts.file, opts.machine);
+  const client = await getStatebackedClient(options);
+  const [versions, instances] = await Promise.all([
+    getAllMachineVersions(client, opts.machine),
+    getAllItems(
+      (cursor) => client.machineInstances.list(opts.machine, { cursor }),
+      (page) => page.instances,
+    ),
+  ]);
+  const target = findMachineVersion(versions, opts.machine, opts.to);
+
+  const coverage = migrationCoverage(
+    migrations,
+    versions,
+    target,
+    versions
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((version) => ({
+        version,
+        instances: instances.filter((i) => i.machineVersion.id === version.id)
+          .length,
+      }))
+      .filter((v) => v.instances > 0),
+  );
+
+  createItemWriter([
+    "version",
+    "versionReference",
+    "instances",
+    "path",
+    "status",
+  ]).write(coverage);
+
+  const unknown = coverage.filter((c) => c.status === "unknown");
+  if (unknown.length > 0) {
+    console.warn(
+      `Can't tell whether the instances on ${unknown.length} version(s) can be upgraded because other versions share their version references`,
+    );
+  }
+
+  const stranded = coverage.filter((c) => c.status === "stranded");
+  if (stranded.length > 0) {
+    const count = stranded.reduce((sum, c) => sum + c.instances, 0);
+    console.error(
+      `${count} instance(s) on ${
+        stranded.length
+      } version(s) have no migration path to '${
+        parseClientInfo(target.clientInfo).versionReference
+      }' (${target.id})`,
+    );
+    process.exitCode = 1;
+  }
 }
 
 async function createMachineVersionMigration(
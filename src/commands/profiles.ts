@@ -0,0 +1,183 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { Command, InvalidArgumentError } from "commander";
+import {
+  currentProfileFile,
+  defaultProfile,
+  getProfileName,
+  getSmplyConfigDir,
+  profileDir,
+  profilesDir,
+  prompt,
+  readProfileConfig,
+  validateProfileName,
+  writeObj,
+} from "../utils.js";
+
+export function addProfilesCommands(cmd: Command) {
+  const profiles = cmd
+    .command("profiles")
+    .description(
+      "Manage profiles. Each profile has its own API URL, default organization, and credentials. Select a profile for a single command with --profile or $SMPLY_PROFILE.",
+    );
+
+  profiles.command("list").description("List profiles").action(listProfiles);
+
+  profiles
+    .command("create")
+    .description(
+      "Create a new profile. The global --api-url and --org options, if specified, are stored as the profile's API URL and default organization.",
+    )
+    .requiredOption(
+      "-n, --name <name>",
+      "Profile name. [a-zA-Z0-9_-]+ (required)",
+      validateProfileName,
+    )
+    .action(createProfile);
+
+  profiles
+    .command("use")
+    .description("Select the profile to use when --profile is not specified")
+    .requiredOption(
+      "-n, --name <name>",
+      "Profile name (required)",
+      validateProfileName,
+    )
+    .action(useProfile);
+
+  profiles
+    .command("delete")
+    .description("Delete a profile and its stored credentials")
+    .requiredOption(
+      "-n, --name <name>",
+      "Profile name (required)",
+      validateProfileName,
+    )
+    .action(deleteProfile);
+}
+
+async function profileExists(name: string) {
+  if (name === defaultProfile) {
+    return true;
+  }
+
+  try {
+    await fs.access(profileDir(name));
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+async function readOptionalFile(file: string) {
+  try {
+    return await fs.readFile(file, { encoding: "utf8" });
+  } catch (e) {
+    if (e?.code === "ENOENT") {
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+async function listProfiles(_: unknown, options: Command) {
+  const current = await getProfileName(options.optsWithGlobals().profile);
+
+  const names = await (async () => {
+    try {
+      return await fs.readdir(profilesDir());
+    } catch (e) {
+      if (e?.code === "ENOENT") {
+        return [];
+      }
+      throw e;
+    }
+  })();
+
+  const profiles = [];
+  for (const name of [defaultProfile, ...names.sort()]) {
+    const dir = profileDir(name);
+    const config = await readProfileConfig(name);
+    profiles.push({
+      name,
+      current: name === current,
+      apiUrl: config.apiUrl,
+      defaultOrg: await readOptionalFile(path.join(dir, "default-org")),
+      loggedIn:
+        typeof (await readOptionalFile(path.join(dir, "credentials"))) ===
+        "string",
+    });
+  }
+
+  writeObj(profiles);
+}
+
+async function createProfile(opts: { name: string }, options: Command) {
+  if (await profileExists(opts.name)) {
+    throw new InvalidArgumentError(`profile '${opts.name}' already exists`);
+  }
+
+  const { apiUrl, org } = options.optsWithGlobals();
+  const dir = profileDir(opts.name);
+
+  await fs.mkdir(dir, { recursive: true, mode: 0o700 });
+  await fs.writeFile(
+    path.join(dir, "config.json"),
+    JSON.stringify({ apiUrl }, null, 2),
+    { encoding: "utf8", mode: 0o600 },
+  );
+
+  if (org) {
+    await fs.writeFile(path.join(dir, "default-org"), org, {
+      encoding: "utf8",
+      mode: 0o600,
+    });
+  }
+
+  console.log(
+    `Created profile '${opts.name}'. Log in with 'smply --profile ${opts.name} login' and select it with 'smply profiles use --name ${opts.name}'.`,
+  );
+}
+
+async function useProfile(opts: { name: string }) {
+  if (!(await profileExists(opts.name))) {
+    throw new InvalidArgumentError(
+      `profile '${opts.name}' does not exist. Create it with 'smply profiles create'.`,
+    );
+  }
+
+  await fs.mkdir(getSmplyConfigDir(), { recursive: true, mode: 0o700 });
+  await fs.writeFile(currentProfileFile(), opts.name, {
+    encoding: "utf8",
+    mode: 0o600,
+  });
+
+  console.log(`Now using profile '${opts.name}'`);
+}
+
+async function deleteProfile(opts: { name: string }) {
+  if (opts.name === defaultProfile) {
+    throw new InvalidArgumentError("the default profile cannot be deleted");
+  }
+
+  if (!(await profileExists(opts.name))) {
+    throw new InvalidArgumentError(`profile '${opts.name}' does not exist`);
+  }
+
+  const confirmedProfileName = await prompt(
+    `Re-enter the profile name ("${opts.name}") to confirm deletion:`,
+  );
+
+  if (confirmedProfileName !== opts.name) {
+    console.log("Profile name did not match. Aborting.");
+    return;
+  }
+
+  await fs.rm(profileDir(opts.name), { recursive: true, force: true });
+
+  if ((await readOptionalFile(currentProfileFile()))?.trim() === opts.name) {
+    await fs.unlink(currentProfileFile());
+  }
+
+  console.log(`Deleted profile '${opts.name}'`);
+}
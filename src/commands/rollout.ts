@@ -0,0 +1,370 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { Command, InvalidArgumentError } from "commander";
+import { StateBackedClient } from "@statebacked/client";
+import {
+  getProfileDir,
+  getStatebackedClient,
+  nonNegativeInteger,
+  positiveInteger,
+  writeObj,
+} from "../utils.js";
+import { getAllItems } from "../paginator.js";
+import { runBatch, writeProgress } from "../batch.js";
+import { seconds } from "../relative-time.js";
+
+export function addRolloutCommands(cmd: Command) {
+  cmd
+    .command("rollout")
+    .description(
+      "Move the instances of a machine from one version to another in waves. After each wave, we wait and then check the logs of the new version for errors from upgraded instances. If too many upgraded instances logged errors, the rollout is paused (re-run the same command to continue) or aborted (upgraded instances are set back to the old version, which requires a migration from the new version to the old one). Progress is recorded locally so an interrupted rollout resumes where it left off.",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .requiredOption(
+      "--from <version>",
+      "Machine version ID to move instances from (required)",
+    )
+    .requiredOption(
+      "--to <version>",
+      "Machine version ID to move instances to (required)",
+    )
+    .option(
+      "-w, --waves <waves>",
+      "Comma-separated, increasing percentages of instances to have upgraded after each wave",
+      parseWaves,
+      [1, 10, 50, 100],
+    )
+    .option(
+      "--wait <duration>",
+      "Time to wait after each wave before checking for errors (e.g. '30s' or '10m')",
+      parseDuration,
+      300,
+    )
+    .option(
+      "--max-error-rate <percent>",
+      "Maximum percentage of upgraded instances that may log errors before the rollout is stopped",
+      parsePercent,
+      5,
+    )
+    .option(
+      "--on-error <action>",
+      "What to do when the error rate is exceeded. One of 'pause' or 'abort'.",
+      (action: string) => {
+        if (!["pause", "abort"].includes(action)) {
+          throw new InvalidArgumentError(
+            "on-error must be one of 'pause' or 'abort'",
+          );
+        }
+        return action;
+      },
+      "pause",
+    )
+    .option(
+      "--concurrency <concurrency>",
+      "Maximum number of instances to update at once",
+      positiveInteger("concurrency"),
+      10,
+    )
+    .option(
+      "--retries <retries>",
+      "Number of times to retry updating an instance after a network, rate limit, or server error",
+      nonNegativeInteger("retries"),
+      3,
+    )
+    .option(
+      "-s, --state-file <file>",
+      "File to record rollout progress in (default: a file in the profile's rollouts directory)",
+    )
+    .option(
+      "--restart",
+      "Discard any recorded progress and start the rollout from the first wave",
+      false,
+    )
+    .action(rollout);
+}
+
+type RolloutOpts = {
+  machine: string;
+  from: string;
+  to: string;
+  waves: Array<number>;
+  wait: number;
+  maxErrorRate: number;
+  onError: "pause" | "abort";
+  concurrency: number;
+  retries: number;
+  stateFile?: string;
+  restart: boolean;
+};
+
+type RolloutState = {
+  machine: string;
+  from: string;
+  to: string;
+  waves: Array<number>;
+  completedWaves: number;
+  status: "in-progress" | "paused" | "aborted" | "complete";
+  startedAt: string;
+  updatedAt: string;
+  errorRate?: number;
+  upgraded: Array<string>;
+};
+
+function parseWaves(value: string) {
+  const waves = value.split(",").map((w) => Number(w.trim().replace(/%$/, "")));
+  if (
+    waves.some((w) => !(w > 0 && w <= 100)) ||
+    waves.some((w, i) => i > 0 && w <= waves[i - 1])
+  ) {
+    throw new InvalidArgumentError(
+      "waves must be increasing percentages between 0 and 100, e.g. '1,10,50,100'",
+    );
+  }
+  return waves;
+}
+
+function parseDuration(value: string) {
+  const secs = seconds(value);
+  if (secs < 0) {
+    throw new InvalidArgumentError("wait must not be negative");
+  }
+  return secs;
+}
+
+function parsePercent(value: string) {
+  const percent = Number(value.replace(/%$/, ""));
+  if (!(percent >= 0 && percent <= 100)) {
+    throw new InvalidArgumentError(
+      "max-error-rate must be a percentage between 0 and 100",
+    );
+  }
+  return percent;
+}
+
+async function getStateFile(opts: RolloutOpts, options: Command) {
+  if (opts.stateFile) {
+    return opts.stateFile;
+  }
+
+  return path.join(
+    await getProfileDir(options.optsWithGlobals().profile),
+    "rollouts",
+    `${opts.machine}.${opts.from}.${opts.to}.json`,
+  );
+}
+
+async function readState(file: string): Promise<RolloutState | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, { encoding: "utf8" }));
+  } catch (e) {
+    if (e?.code === "ENOENT") {
+      return undefined;
+    }
+    throw e;
+  }
+}
+
+async function writeState(file: string, state: RolloutState) {
+  state.updatedAt = new Date().toISOString();
+  await fs.mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+  await fs.writeFile(file, JSON.stringify(state, null, 2), {
+    encoding: "utf8",
+    mode: 0o600,
+  });
+}
+
+/**
+ * Instances that logged to stderr while running the target version since
+ * the rollout started.
+ */
+async function getErroredInstances(
+  client: StateBackedClient,
+  state: RolloutState,
+) {
+  const upgraded = new Set(state.upgraded);
+  const errored = new Set<string>();
+  let from = new Date(state.startedAt);
+  for (;;) {
+    const { logs, maxTimestamp } = await client.logs.retrieve(from, {
+      machineName: state.machine,
+      machineVersionId: state.to,
+    });
+
+    for (const log of logs) {
+      if (log.outputType === "stderr" && upgraded.has(log.instanceName)) {
+        errored.add(log.instanceName);
+      }
+    }
+
+    // batches may be empty because of partitioning, so we're only done once
+    // maxTimestamp stops advancing
+    const next = new Date(maxTimestamp);
+    if (next.getTime() <= from.getTime()) {
+      return errored;
+    }
+    from = next;
+  }
+}
+
+async function setDesiredVersions(
+  client: StateBackedClient,
+  opts: RolloutOpts,
+  instances: Array<string>,
+  version: string,
+) {
+  return runBatch(
+    instances,
+    (instance) =>
+      client.machineInstances.admin.updateDesiredVersion(
+        opts.machine,
+        instance,
+        { targetMachineVersionId: version },
+      ),
+    {
+      concurrency: opts.concurrency,
+      retries: opts.retries,
+      onProgress: writeProgress("Updated"),
+    },
+  );
+}
+
+async function rollout(opts: RolloutOpts, options: Command) {
+  if (opts.from === opts.to) {
+    throw new InvalidArgumentError("from and to must be different versions");
+  }
+
+  const stateFile = await getStateFile(opts, options);
+  const existing = opts.restart ? undefined : await readState(stateFile);
+
+  if (existing?.status === "complete") {
+    console.error("Rollout already complete");
+    writeObj(existing);
+    return;
+  }
+
+  if (existing?.status === "aborted") {
+    throw new InvalidArgumentError(
+      "rollout was aborted. Re-run with --restart to start it over.",
+    );
+  }
+
+  if (existing) {
+    console.error(
+      `Resuming rollout after wave ${existing.completedWaves}/${existing.waves.length}`,
+    );
+  }
+
+  const now = new Date().toISOString();
+  const state: RolloutState = existing ?? {
+    machine: opts.machine,
+    from: opts.from,
+    to: opts.to,
+    waves: opts.waves,
+    completedWaves: 0,
+    status: "in-progress",
+    startedAt: now,
+    updatedAt: now,
+    upgraded: [],
+  };
+  state.status = "in-progress";
+
+  const client = await getStatebackedClient(options);
+
+  const upgraded = new Set(state.upgraded);
+  const candidates = (
+    await getAllItems(
+      (cursor) => client.machineInstances.list(opts.machine, { cursor }),
+      (page) => page.instances,
+    )
+  )
+    .filter((i) => i.machineVersion.id === opts.from && !upgraded.has(i.slug))
+    .map((i) => i.slug);
+  const total = upgraded.size + candidates.length;
+
+  for (let wave = state.completedWaves; wave < state.waves.length; ++wave) {
+    const percent = state.waves[wave];
+    const target = Math.ceil((total * percent) / 100);
+    const instances = candidates.splice(0, Math.max(0, target - upgraded.size));
+
+    console.error(
+      `Wave ${wave + 1}/${state.waves.length}: upgrading ${
+        instances.length
+      } instance(s) to reach ${percent}% (${target}/${total})`,
+    );
+
+    const results = await setDesiredVersions(client, opts, instances, opts.to);
+    results.filter((r) => r.ok).forEach((r) => upgraded.add(r.item));
+    state.upgraded = Array.from(upgraded);
+
+    const failures = results.filter((r) => !r.ok);
+    if (failures.length > 0) {
+      state.status = "paused";
+      await writeState(stateFile, state);
+      writeObj(failures.map((f) => ({ name: f.item, error: f.error })));
+      console.error(
+        `Failed to upgrade ${failures.length} instance(s). Re-run the same command to resume the rollout.`,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    state.completedWaves = wave + 1;
+    await writeState(stateFile, state);
+
+    console.error(`Waiting ${opts.wait}s before checking for errors`);
+    await new Promise((resolve) => setTimeout(resolve, opts.wait * 1000));
+
+    const errored = await getErroredInstances(client, state);
+    state.errorRate =
+      upgraded.size === 0 ? 0 : (errored.size / upgraded.size) * 100;
+    console.error(
+      `${errored.size}/${
+        upgraded.size
+      } upgraded instance(s) logged errors (${state.errorRate.toFixed(1)}%)`,
+    );
+
+    if (state.errorRate <= opts.maxErrorRate) {
+      await writeState(stateFile, state);
+      continue;
+    }
+
+    if (opts.onError === "pause") {
+      state.status = "paused";
+      await writeState(stateFile, state);
+      console.error(
+        `Error rate exceeds ${
+          opts.maxErrorRate
+        }%. Rollout paused. Re-run the same command to ${
+          state.completedWaves === state.waves.length
+            ? "mark the rollout complete"
+            : "continue with the next wave"
+        } or add --restart to start over.`,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    console.error(
+      `Error rate exceeds ${opts.maxErrorRate}%. Aborting rollout and moving upgraded instances back to ${opts.from}.`,
+    );
+    const reverted = await setDesiredVersions(
+      client,
+      opts,
+      state.upgraded,
+      opts.from,
+    );
+    state.status = "aborted";
+    await writeState(stateFile, state);
+    writeObj(
+      reverted
+        .filter((r) => !r.ok)
+        .map((r) => ({ name: r.item, error: r.error })),
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  state.status = "complete";
+  await writeState(stateFile, state);
+  writeObj({ ...state, upgraded: state.upgraded.length });
+}
@@ -0,0 +1,500 @@
+import { AddressInfo } from "node:net";
+import { Command, InvalidArgumentError } from "commander";
+import { StateBackedClient, StateValue } from "@statebacked/client";
+import { BuildOpts, buildFromCommand, getStatebackedClient } from "../utils.js";
+import { loadBundle, startEmulator } from "../emulator.js";
+import { readInput, readObjectInput } from "../input.js";
+import {
+  TestReporter,
+  TestResult,
+  formatTestReport,
+  testReporters,
+} from "../test-report.js";
+import { matchesState } from "./instance-query.js";
+
+type Credentials = {
+  authContext?: Record<string, unknown>;
+  token?: string;
+};
+
+type Expectation = {
+  state?: StateValue;
+  context?: Record<string, unknown>;
+  tags?: Array<string>;
+  done?: boolean;
+};
+
+type ExpectedError = true | number | string;
+
+type Step = Credentials & {
+  event: string | { type: string };
+  expect?: Expectation;
+  expectError?: ExpectedError;
+};
+
+type Scenario = Credentials & {
+  name: string;
+  context?: Record<string, unknown>;
+  version?: string;
+  expect?: Expectation;
+  expectError?: ExpectedError;
+  steps: Array<Step>;
+};
+
+type Target = {
+  actingClient: (credentials: Credentials) => Promise<StateBackedClient>;
+  adminClient: StateBackedClient;
+  cleanup: (instance: string) => Promise<void>;
+  close: () => Promise<void>;
+};
+
+type TestOpts = BuildOpts & {
+  machine: string;
+  file: Array<string>;
+  token?: string;
+  authContext?: string;
+  reporter: TestReporter;
+  keepInstances: boolean;
+};
+
+export function addTestCommands(cmd: Command) {
+  cmd
+    .command("test")
+    .description(
+      "Run scenario tests against a machine. Each scenario creates an instance, sends it a sequence of events, and checks the resulting state, context, tags, and authorization errors. " +
+        "If --js or --node is specified, scenarios run against that definition in a local emulator (invoked services and delayed events are not executed). Otherwise, they run against the deployed machine and the instances they create are deleted afterwards." +
+        "\n\n" +
+        "Scenario files are JSON, JSON5, or YAML and contain a scenario, a list of scenarios, or { scenarios: [...] }. A scenario looks like:\n" +
+        "  name: checkout succeeds\n" +
+        "  authContext: { sub: user_1 }   # or token. Defaults to --auth-context or --token\n" +
+        "  context: { cart: [] }          # initial context\n" +
+        "  expect: { state: browsing }    # checked after the instance is created\n" +
+        "  steps:\n" +
+        "    - event: { type: add, item: shoe }\n" +
+        "      expect:\n" +
+        "        state: browsing           # a state value or dotted path to an active state\n" +
+        "        context: { $.cart[0]: shoe }  # JSON paths into the context and their expected values\n" +
+        "    - event: refund\n" +
+        "      authContext: { sub: someone_else }\n" +
+        "      expectError: rejected-by-machine-authorizer  # true, an HTTP status, or an error code\n" +
+        "\nWrites a TAP or JUnit XML report to stdout and exits with a non-zero code if any scenario fails.",
+    )
+    .requiredOption("-m, --machine <machine>", "Machine name (required)")
+    .requiredOption("-f, --file <files...>", "Scenario files to run (required)")
+    .option(
+      "-j, --js <file>",
+      "Path to the single javascript file that exports the machine definition to test locally",
+    )
+    .option(
+      "-n, --node <file>",
+      "Path to the Node.js entrypoint for the machine definition to test locally",
+    )
+    .option(
+      "-t, --token <token>",
+      "JWT signed with one of your State Backed keys that will provide the auth context for scenarios and steps without their own token or authContext. Provide only one of --token and --auth-context.",
+    )
+    .option(
+      "-a, --auth-context <authContext>",
+      'JSON auth context for scenarios and steps without their own token or authContext. E.g. \'{"sub": "user_1234"}\' Provide only one of --token and --auth-context.',
+    )
+    .option(
+      "-r, --reporter <reporter>",
+      "Report format. One of 'tap' or 'junit'.",
+      (reporter: string) => {
+        if (testReporters.indexOf(reporter) < 0) {
+          throw new InvalidArgumentError(
+            "reporter must be one of 'tap' or 'junit'",
+          );
+        }
+        return reporter;
+      },
+      "tap",
+    )
+    .option(
+      "--keep-instances",
+      "Don't delete the instances created on the deployed machine",
+      false,
+    )
+    .action(runTests);
+}
+
+async function loadScenarios(file: string): Promise<Array<Scenario>> {
+  const contents = await readInput(`@${file}`, file);
+  const scenarios = Array.isArray(contents)
+    ? contents
+    : Array.isArray((contents as any)?.scenarios)
+    ? (contents as any).scenarios
+    : [contents];
+
+  return scenarios.map((scenario: any, i: number) => {
+    const where = `${file}: scenario ${i + 1}`;
+    if (scenario === null || typeof scenario !== "object") {
+      throw new InvalidArgumentError(`${where} must be an object`);
+    }
+
+    const steps = scenario.steps ?? [];
+    if (!Array.isArray(steps)) {
+      throw new InvalidArgumentError(`${where}: steps must be a list`);
+    }
+
+    steps.forEach((step: any, j: number) => {
+      const type =
+        typeof step?.event === "string" ? step.event : step?.event?.type;
+      if (typeof type !== "string") {
+        throw new InvalidArgumentError(
+          `${where}: step ${
+            j + 1
+          } must have an event type or an event with a string 'type'`,
+        );
+      }
+    });
+
+    return {
+      ...scenario,
+      name: scenario.name ?? `scenario ${i + 1}`,
+      steps,
+    };
+  });
+}
+
+/**
+ * Look up a JSON path like `$.items[0].name` (or `items[0].name`).
+ */
+function getPath(value: unknown, path: string) {
+  const keys: Array<string> =
+    path.replace(/^\$\.?/, "").match(/[^.[\]]+/g) ?? [];
+  return keys.reduce(
+    (v: any, key) => (v === null || typeof v !== "object" ? undefined : v[key]),
+    value,
+  );
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as any)[key])]),
+    );
+  }
+
+  return value;
+}
+
+function deepEqual(a: unknown, b: unknown) {
+  return JSON.stringify(canonicalize(a)) === JSON.stringify(canonicalize(b));
+}
+
+function checkExpectation(
+  expect: Expectation,
+  actual: {
+    state: StateValue;
+    context?: unknown;
+    tags?: Array<string>;
+    done?: boolean;
+  },
+) {
+  const failures: Array<string> = [];
+
+  if (typeof expect.state !== "undefined") {
+    const matches =
+      typeof expect.state === "string"
+        ? matchesState(actual.state, expect.state)
+        : deepEqual(actual.state, expect.state);
+    if (!matches) {
+      failures.push(
+        `expected state ${JSON.stringify(
+          expect.state,
+        )} but was ${JSON.stringify(actual.state)}`,
+      );
+    }
+  }
+
+  for (const [path, expected] of Object.entries(expect.context ?? {})) {
+    const value = getPath(actual.context, path);
+    if (!deepEqual(value, expected)) {
+      failures.push(
+        `expected context ${path} to be ${JSON.stringify(
+          expected,
+        )} but was ${JSON.stringify(value)}`,
+      );
+    }
+  }
+
+  for (const tag of expect.tags ?? []) {
+    if (!(actual.tags ?? []).includes(tag)) {
+      failures.push(
+        `expected tag '${tag}' but tags were ${JSON.stringify(actual.tags)}`,
+      );
+    }
+  }
+
+  if (typeof expect.done !== "undefined" && !!actual.done !== expect.done) {
+    failures.push(`expected done to be ${expect.done}`);
+  }
+
+  return failures.length > 0 ? failures.join("; ") : undefined;
+}
+
+async function captureError(fn: () => Promise<unknown>) {
+  try {
+    await fn();
+    return undefined;
+  } catch (err) {
+    return err ?? new Error("unknown error");
+  }
+}
+
+function checkError(label: string, expected: ExpectedError, err: any) {
+  if (err && typeof expected === "undefined") {
+    return `${label} failed: ${err.message}`;
+  }
+
+  if (!err && typeof expected !== "undefined") {
+    return `${label} succeeded but was expected to fail with ${JSON.stringify(
+      expected,
+    )}`;
+  }
+
+  if (
+    err &&
+    expected !== true &&
+    expected !== err.status &&
+    expected !== err.code
+  ) {
+    return `${label} failed with ${err.status ?? "no status"} (${
+      err.code ?? "no code"
+    }): ${err.message} but was expected to fail with ${JSON.stringify(
+      expected,
+    )}`;
+  }
+
+  return undefined;
+}
+
+function credentialsFor(
+  own: Credentials,
+  fallback: Credentials,
+): Credentials | undefined {
+  if (own.token || own.authContext) {
+    return { token: own.token, authContext: own.authContext };
+  }
+  if (fallback.token || fallback.authContext) {
+    return fallback;
+  }
+  return undefined;
+}
+
+async function runScenario(
+  target: Target,
+  machine: string,
+  instance: string,
+  scenario: Scenario,
+  defaults: Credentials,
+): Promise<{ failure?: string; created: boolean }> {
+  const scenarioCredentials = credentialsFor(scenario, defaults);
+  if (!scenarioCredentials) {
+    return {
+      failure:
+        "no authContext or token. Provide one in the scenario or use --auth-context or --token.",
+      created: false,
+    };
+  }
+
+  const creator = await target.actingClient(scenarioCredentials);
+  const createError = await captureError(() =>
+    creator.machineInstances.create(machine, {
+      slug: instance,
+      context: scenario.context,
+      machineVersionId: scenario.version,
+    }),
+  );
+
+  const createFailure = checkError(
+    "creating the instance",
+    scenario.expectError,
+    createError,
+  );
+  if (createFailure || createError) {
+    return { failure: createFailure, created: false };
+  }
+
+  const check = async (label: string, expect?: Expectation) => {
+    if (!expect) {
+      return undefined;
+    }
+    const actual = await target.adminClient.machineInstances.admin.get(
+      machine,
+      instance,
+    );
+    const failure = checkExpectation(expect, actual);
+    return failure && `${label}: ${failure}`;
+  };
+
+  const initialFailure = await check("after creation", scenario.expect);
+  if (initialFailure) {
+    return { failure: initialFailure, created: true };
+  }
+
+  for (let i = 0; i < scenario.steps.length; i++) {
+    const step = scenario.steps[i];
+    const type = typeof step.event === "string" ? step.event : step.event.type;
+    const label = `step ${i + 1} (${type})`;
+
+    const sender = await target.actingClient(
+      credentialsFor(step, scenarioCredentials),
+    );
+    const sendError = await captureError(() =>
+      sender.machineInstances.sendEvent(machine, instance, {
+        event: step.event,
+      }),
+    );
+
+    const failure =
+      checkError(label, step.expectError, sendError) ??
+      (await check(label, step.expect));
+    if (failure) {
+      return { failure, created: true };
+    }
+  }
+
+  return { created: true };
+}
+
+async function localTarget(opts: TestOpts, options: Command): Promise<Target> {
+  const code = await buildFromCommand(opts);
+  const bundle = await loadBundle(code.bundled);
+  const server = await startEmulator({
+    machineName: opts.machine,
+    bundle,
+    versionReference: code.fileName,
+    port: 0,
+    quiet: true,
+  });
+
+  const apiHost = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+  // the emulator trusts any token
+  const clientFor = (credentials: Credentials) =>
+    new StateBackedClient(credentials.token ?? "local", {
+      apiHost,
+      actAs: credentials.token ? undefined : credentials.authContext,
+    });
+
+  return {
+    actingClient: async (credentials) => clientFor(credentials),
+    adminClient: clientFor({}),
+    cleanup: async () => {},
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve())),
+      ),
+  };
+}
+
+async function deployedTarget(
+  opts: TestOpts,
+  options: Command,
+): Promise<Target> {
+  const adminClient = await getStatebackedClient(options);
+
+  return {
+    actingClient: (credentials) => getStatebackedClient(options, credentials),
+    adminClient,
+    cleanup: async (instance) => {
+      if (opts.keepInstances) {
+        return;
+      }
+      try {
+        await adminClient.machineInstances.dangerously.delete(
+          opts.machine,
+          instance,
+          { dangerDataWillBeDeletedForever: true },
+        );
+      } catch (err) {
+        console.warn(
+          `Failed to delete test instance '${instance}': ${err?.message}`,
+        );
+      }
+    },
+    close: async () => {},
+  };
+}
+
+async function runTests(opts: TestOpts, options: Command) {
+  if (opts.token && opts.authContext) {
+    throw new InvalidArgumentError(
+      "Provide only one of --token and --auth-context",
+    );
+  }
+
+  const defaults: Credentials = {
+    token: opts.token,
+    authContext:
+      opts.authContext &&
+      (await readObjectInput(opts.authContext, "--auth-context")),
+  };
+
+  const files: Array<{ file: string; scenarios: Array<Scenario> }> = [];
+  for (const file of opts.file) {
+    files.push({ file, scenarios: await loadScenarios(file) });
+  }
+
+  const target =
+    opts.js || opts.node
+      ? await localTarget(opts, options)
+      : await deployedTarget(opts, options);
+
+  const runId = Date.now().toString(36);
+  let count = 0;
+  const results: Array<TestResult> = [];
+  try {
+    for (const { file, scenarios } of files) {
+      for (const scenario of scenarios) {
+        const instance = `smply-test-${runId}-${++count}`;
+        const start = Date.now();
+
+        let outcome: { failure?: string; created: boolean };
+        try {
+          outcome = await runScenario(
+            target,
+            opts.machine,
+            instance,
+            scenario,
+            defaults,
+          );
+        } catch (err) {
+          outcome = { failure: err?.message ?? String(err), created: true };
+        }
+
+        if (outcome.created) {
+          await target.cleanup(instance);
+        }
+
+        results.push({
+          file,
+          name: scenario.name,
+          ok: !outcome.failure,
+          durationMs: Date.now() - start,
+          failure: outcome.failure,
+        });
+      }
+    }
+  } finally {
+    await target.close();
+  }
+
+  process.stdout.write(formatTestReport(results, opts.reporter));
+
+  const failed = results.filter((r) => !r.ok).length;
+  console.error(
+    `${results.length - failed} of ${results.length} scenario(s) passed`,
+  );
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
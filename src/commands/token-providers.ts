@@ -1,16 +1,22 @@
-import { Command, InvalidArgumentError } from "commander";
+import { Command } from "commander";
 import { getStatebackedClient, prompt } from "../utils.js";
-import { paginateWithCursor } from "../paginator.js";
+import {
+  PaginationOptions,
+  paginateWithCursor,
+  withPaginationOptions,
+} from "../paginator.js";
+import { readObjectInput } from "../input.js";
 
 export function addTokenProviderCommands(cmd: Command) {
   const tokenProviders = cmd
     .command("token-providers")
     .description("Manage token provider configurations for token exchange");
 
-  tokenProviders
-    .command("list")
-    .description("List token provider configurations")
-    .action(listTokenProviders);
+  withPaginationOptions(
+    tokenProviders
+      .command("list")
+      .description("List token provider configurations"),
+  ).action(listTokenProviders);
 
   tokenProviders
     .command("upsert")
@@ -39,12 +45,14 @@ export function addTokenProviderCommands(cmd: Command) {
     .action(deleteIdentityProvider);
 }
 
-async function listTokenProviders(_: any, options: Command) {
+async function listTokenProviders(opts: PaginationOptions, options: Command) {
   const s = await getStatebackedClient(options);
 
   await paginateWithCursor(
     (cursor) => s.tokenProviders.list({ cursor }),
     (page) => page.tokenProviders,
+    opts,
+    ["service", "keyId", "mapping"],
   );
 }
 
@@ -56,13 +64,7 @@ async function upsertTokenProvider(
   },
   options: Command,
 ) {
-  const mapping = (() => {
-    try {
-      return JSON.parse(opts.mapping);
-    } catch {
-      throw new InvalidArgumentError("--mapping must be a valid JSON object");
-    }
-  })();
+  const mapping = await readObjectInput(opts.mapping, "--mapping");
 
   const s = await getStatebackedClient(options);
 
@@ -0,0 +1,69 @@
+/**
+ * Parse RFC 4180 CSV into one object per row, keyed by the header row, with
+ * the line of the file that the row starts on. Quoted fields may contain
+ * commas, newlines, and doubled quotes.
+ */
+export function parseCsv(
+  text: string,
+): Array<{ record: Record<string, string>; line: number }> {
+  const rows: Array<{ fields: Array<string>; line: number }> = [];
+  let row: Array<string> = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === "\n" || (c === "\r" && text[i + 1] !== "\n")) {
+          line++;
+        }
+        field += c;
+      }
+      continue;
+    }
+
+    if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push({ fields: row, line: rowLine });
+      row = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += c;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push({ fields: row, line: rowLine });
+  }
+
+  const [header = { fields: [] }, ...records] = rows.filter(
+    (r) => r.fields.length > 1 || r.fields[0] !== "",
+  );
+
+  return records.map(({ fields, line }) => ({
+    record: Object.fromEntries(
+      header.fields.map((col, i) => [col.trim(), fields[i] ?? ""]),
+    ),
+    line,
+  }));
+}
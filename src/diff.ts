@@ -0,0 +1,44 @@
+export type Change = {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  v !== null && typeof v === "object" && !Array.isArray(v);
+
+/**
+ * The changes between two JSON values, keyed by the dotted paths of the
+ * changed values. Arrays are compared as a whole.
+ */
+export function diff(
+  before: unknown,
+  after: unknown,
+  path = "",
+): Array<Change> {
+  if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(keys).flatMap((key) =>
+      diff(before[key], after[key], path ? `${path}.${key}` : key),
+    );
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+
+  return [{ path, before, after }];
+}
+
+export function formatChanges(changes: Array<Change>) {
+  return changes
+    .flatMap(({ path, before, after }) => [
+      ...(typeof before === "undefined"
+        ? []
+        : [`- ${path || "(root)"}: ${JSON.stringify(before)}`]),
+      ...(typeof after === "undefined"
+        ? []
+        : [`+ ${path || "(root)"}: ${JSON.stringify(after)}`]),
+    ])
+    .join("\n");
+}
@@ -0,0 +1,429 @@
+import * as http from "node:http";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+
+type StateValue = string | { [key: string]: StateValue };
+
+type MachineVersionInfo = {
+  id: string;
+  createdAt: string;
+  clientInfo: string;
+};
+
+type StoredTransition = {
+  createdAt: string;
+  state: StateValue;
+  event: unknown;
+};
+
+type StoredInstance = {
+  slug: string;
+  createdAt: string;
+  status: "running" | "paused";
+  state: StateValue;
+  context: Record<string, any>;
+  tags: Array<string>;
+  done: boolean;
+  transitions: Array<StoredTransition>;
+};
+
+type StoreData = {
+  machines: Record<string, Record<string, StoredInstance>>;
+};
+
+export type LoadedBundle = {
+  machine: any;
+  allowRead: (req: any) => boolean | Promise<boolean>;
+  allowWrite: (req: any) => boolean | Promise<boolean>;
+};
+
+export type EmulatorOpts = {
+  machineName: string;
+  bundle: LoadedBundle;
+  versionReference: string;
+  port: number;
+  storeFile?: string;
+  quiet?: boolean;
+};
+
+const pageSize = 100;
+
+function httpError(status: number, message: string, code?: string) {
+  return Object.assign(new Error(message), { status, code });
+}
+
+/**
+ * Import a bundle produced by `build` so that its machine and authorizers
+ * can be run in-process.
+ */
+export async function loadBundle(bundled: string): Promise<LoadedBundle> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "smply-dev-"));
+  const codePath = path.join(tmpDir, "bundle.mjs");
+  try {
+    await fs.writeFile(codePath, bundled, { encoding: "utf8" });
+    const mod = await import(pathToFileURL(codePath).href);
+
+    if (typeof mod.allowRead !== "function") {
+      throw new Error("Bundle must export an allowRead function");
+    }
+
+    if (typeof mod.allowWrite !== "function") {
+      throw new Error("Bundle must export an allowWrite function");
+    }
+
+    if (typeof mod.default !== "object" || !("__xstatenode" in mod.default)) {
+      throw new Error("Bundle's default export must be a machine definition");
+    }
+
+    return {
+      machine: mod.default,
+      allowRead: mod.allowRead,
+      allowWrite: mod.allowWrite,
+    };
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  }
+}
+
+async function createStore(file?: string) {
+  let data: StoreData = { machines: {} };
+
+  if (file) {
+    try {
+      data = JSON.parse(await fs.readFile(file, { encoding: "utf8" }));
+    } catch (e) {
+      if (e?.code !== "ENOENT") {
+        throw e;
+      }
+    }
+  }
+
+  const instancesFor = (machineName: string) =>
+    (data.machines[machineName] ??= {});
+
+  return {
+    get(machineName: string, instanceName: string) {
+      return instancesFor(machineName)[instanceName];
+    },
+    list(machineName: string) {
+      return Object.values(instancesFor(machineName)).sort((a, b) =>
+        a.createdAt.localeCompare(b.createdAt),
+      );
+    },
+    async put(machineName: string, instance: StoredInstance) {
+      instancesFor(machineName)[instance.slug] = instance;
+      if (file) {
+        await fs.writeFile(file, JSON.stringify(data), {
+          encoding: "utf8",
+          mode: 0o600,
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Serve a local stand-in for the subset of the State Backed API used to
+ * create instances, send events, pause and resume instances, read instance
+ * state and transitions, and list the (single) machine version.
+ *
+ * Machines are run with their pure transition function so invoked services
+ * and delayed events are not executed.
+ */
+export async function startEmulator(opts: EmulatorOpts) {
+  const store = await createStore(opts.storeFile);
+  const { machine, allowRead, allowWrite } = opts.bundle;
+  const machineVersion: MachineVersionInfo = {
+    id: "ver_local",
+    createdAt: new Date().toISOString(),
+    clientInfo: opts.versionReference,
+  };
+
+  const toState = (instance: StoredInstance) => ({
+    ts: Date.now(),
+    state: instance.state,
+    publicContext: instance.context?.public,
+    tags: instance.tags,
+    done: instance.done,
+  });
+
+  const getInstance = (machineName: string, instanceName: string) => {
+    const instance = store.get(machineName, instanceName);
+    if (!instance) {
+      throw httpError(404, "machine instance not found");
+    }
+    return instance;
+  };
+
+  const authorize = async (
+    authorizer: (req: any) => boolean | Promise<boolean>,
+    req: Record<string, unknown>,
+  ) => {
+    if (!(await authorizer(req))) {
+      throw httpError(
+        403,
+        "rejected by machine authorizer",
+        "rejected-by-machine-authorizer",
+      );
+    }
+  };
+
+  const applyState = (instance: StoredInstance, state: any, event: unknown) => {
+    const createdAt = new Date().toISOString();
+    instance.state = state.value;
+    instance.context = state.context;
+    instance.tags = Array.from(state.tags ?? []);
+    instance.done = !!state.done;
+    instance.transitions.push({ createdAt, state: state.value, event });
+  };
+
+  const createInstance = async (
+    machineName: string,
+    authContext: unknown,
+    body: any,
+  ) => {
+    const slug = body?.slug;
+    if (typeof slug !== "string" || !slug) {
+      throw httpError(400, "slug is required", "invalid-parameter");
+    }
+
+    if (store.get(machineName, slug)) {
+      throw httpError(409, "machine instance already exists");
+    }
+
+    const event = { type: "xstate.init" };
+    await authorize(allowWrite, {
+      machineInstanceName: slug,
+      authContext,
+      event,
+    });
+
+    const initialState = (
+      body.context ? machine.withContext(body.context) : machine
+    ).initialState;
+
+    const instance: StoredInstance = {
+      slug,
+      createdAt: new Date().toISOString(),
+      status: "running",
+      state: initialState.value,
+      context: initialState.context,
+      tags: [],
+      done: false,
+      transitions: [],
+    };
+    applyState(instance, initialState, event);
+
+    await store.put(machineName, instance);
+
+    return toState(instance);
+  };
+
+  const sendEvent = async (
+    machineName: string,
+    instanceName: string,
+    authContext: unknown,
+    body: any,
+  ) => {
+    const instance = getInstance(machineName, instanceName);
+    if (instance.status === "paused") {
+      throw httpError(409, "machine instance is paused", "invalid-state");
+    }
+
+    const event =
+      typeof body?.event === "string" ? { type: body.event } : body?.event;
+    if (typeof event?.type !== "string") {
+      throw httpError(400, "event is required", "invalid-parameter");
+    }
+
+    await authorize(allowWrite, {
+      machineInstanceName: instanceName,
+      authContext,
+      event,
+    });
+
+    const nextState = machine.transition(
+      instance.state,
+      event,
+      instance.context,
+    );
+    applyState(instance, nextState, body.event);
+
+    await store.put(machineName, instance);
+
+    return toState(instance);
+  };
+
+  const route = async (req: http.IncomingMessage) => {
+    const url = new URL(req.url ?? "/", `http://localhost:${opts.port}`);
+    const parts = url.pathname
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+
+    if (parts[0] !== "machines" || !parts[1]) {
+      throw httpError(404, "not supported by the local emulator");
+    }
+
+    const [, machineName, i, instanceName, action] = parts;
+    if (machineName !== opts.machineName) {
+      throw httpError(404, `machine '${machineName}' not found`);
+    }
+
+    const authContext = getAuthContext(req);
+
+    if (parts.length === 2 && req.method === "POST") {
+      return createInstance(machineName, authContext, await readBody(req));
+    }
+
+    if (parts.length === 3 && i === "v" && req.method === "GET") {
+      return { versions: [machineVersion] };
+    }
+
+    if (i !== "i") {
+      throw httpError(404, "not supported by the local emulator");
+    }
+
+    if (parts.length === 3 && req.method === "GET") {
+      return paginate(store.list(machineName), url, "instances", (inst) => ({
+        slug: inst.slug,
+        createdAt: inst.createdAt,
+        status: inst.status,
+        machineVersion,
+      }));
+    }
+
+    if (parts.length === 4 && req.method === "GET") {
+      const instance = getInstance(machineName, instanceName);
+      await authorize(allowRead, {
+        machineInstanceName: instanceName,
+        authContext,
+      });
+      return toState(instance);
+    }
+
+    if (parts.length === 5 && action === "admin" && req.method === "GET") {
+      const instance = getInstance(machineName, instanceName);
+      return {
+        state: instance.state,
+        context: instance.context,
+        status: instance.status,
+        tags: instance.tags,
+        done: instance.done,
+        machineVersion,
+        createdAt: instance.createdAt,
+      };
+    }
+
+    if (parts.length === 5 && action === "status" && req.method === "PUT") {
+      const instance = getInstance(machineName, instanceName);
+      const { status } = (await readBody(req)) ?? {};
+      if (status !== "running" && status !== "paused") {
+        throw httpError(
+          400,
+          "status must be 'running' or 'paused'",
+          "invalid-parameter",
+        );
+      }
+      instance.status = status;
+      await store.put(machineName, instance);
+      return {};
+    }
+
+    if (parts.length === 5 && action === "events" && req.method === "GET") {
+      const instance = getInstance(machineName, instanceName);
+      return paginate(instance.transitions, url, "transitions", (t) => t);
+    }
+
+    if (parts.length === 5 && action === "events" && req.method === "POST") {
+      return sendEvent(
+        machineName,
+        instanceName,
+        authContext,
+        await readBody(req),
+      );
+    }
+
+    throw httpError(404, "not supported by the local emulator");
+  };
+
+  const server = http.createServer(async (req, res) => {
+    let status = 200;
+    let body: unknown;
+    try {
+      body = await route(req);
+    } catch (err) {
+      status = typeof err?.status === "number" ? err.status : 500;
+      body = { error: err?.message, code: err?.code };
+      if (status === 500) {
+        console.error(err);
+      }
+    }
+
+    if (!opts.quiet) {
+      console.log(`${req.method} ${req.url} ${status}`);
+    }
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(opts.port, resolve));
+
+  return server;
+}
+
+function paginate<T>(
+  items: Array<T>,
+  url: URL,
+  key: string,
+  toItem: (item: T) => unknown,
+) {
+  const offset = parseInt(url.searchParams.get("cursor") ?? "0", 10) || 0;
+  const next = offset + pageSize;
+  return {
+    [key]: items.slice(offset, next).map(toItem),
+    cursor: next < items.length ? next.toString() : undefined,
+  };
+}
+
+function getAuthContext(req: http.IncomingMessage) {
+  const act = req.headers["x-statebacked-act"];
+  if (typeof act === "string") {
+    try {
+      return JSON.parse(act);
+    } catch (err) {
+      throw httpError(
+        400,
+        "invalid x-statebacked-act header",
+        "invalid-parameter",
+      );
+    }
+  }
+
+  // the emulator trusts any token and only uses it to find the user claims
+  const token = req.headers.authorization?.replace(/^Bearer /, "");
+  try {
+    const claims = JSON.parse(
+      Buffer.from(token?.split(".")[1] ?? "", "base64url").toString("utf8"),
+    );
+    return claims?.act ?? {};
+  } catch (err) {
+    return {};
+  }
+}
+
+async function readBody(req: http.IncomingMessage) {
+  const chunks: Array<Buffer> = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+
+  const body = Buffer.concat(chunks).toString("utf8");
+  try {
+    return body ? JSON.parse(body) : undefined;
+  } catch (err) {
+    throw httpError(400, "invalid JSON body", "invalid-parameter");
+  }
+}
@@ -0,0 +1,78 @@
+import { execFile } from "node:child_process";
+import * as path from "node:path";
+import { InvalidArgumentError } from "commander";
+
+export type GitInfo = {
+  root: string;
+  commit: string;
+  tag?: string;
+  dirty: boolean;
+};
+
+function git(cwd: string, args: Array<string>) {
+  return new Promise<string | undefined>((resolve) => {
+    execFile("git", args, { cwd }, (err, stdout) => {
+      resolve(err ? undefined : stdout.trim());
+    });
+  });
+}
+
+/**
+ * The checked out commit, its tag (if any), and whether there are uncommitted
+ * changes in the git repository containing `file`. Undefined if `file` is not
+ * in a git repository or git is not installed.
+ */
+export async function getGitInfo(file: string): Promise<GitInfo | undefined> {
+  const cwd = path.dirname(path.resolve(file));
+
+  const root = await git(cwd, ["rev-parse", "--show-toplevel"]);
+  const commit = root && (await git(cwd, ["rev-parse", "HEAD"]));
+  if (!commit) {
+    return undefined;
+  }
+
+  const tag = await git(cwd, ["describe", "--tags", "--exact-match", "HEAD"]);
+  // untracked files (build output, scratch files) don't change the commit
+  const status = await git(cwd, [
+    "status",
+    "--porcelain",
+    "--untracked-files=no",
+  ]);
+
+  return {
+    root,
+    commit,
+    tag: tag || undefined,
+    dirty: !!status,
+  };
+}
+
+/**
+ * A version reference for the checked out code: its tag or short commit SHA,
+ * suffixed with "-dirty" if there are uncommitted changes.
+ */
+export function gitVersionReference(info: GitInfo) {
+  return `${info.tag ?? info.commit.slice(0, 12)}${info.dirty ? "-dirty" : ""}`;
+}
+
+/**
+ * The commit to record as the provenance of a build.
+ */
+export function gitProvenance(info: GitInfo) {
+  return info.dirty ? `${info.commit}.dirty` : info.commit;
+}
+
+/**
+ * Git info for publishing a version built from `file`. We refuse to publish
+ * uncommitted changes unless `allowDirty` is set because the version could
+ * not be traced back to a commit.
+ */
+export async function getPublishableGitInfo(file: string, allowDirty: boolean) {
+  const info = await getGitInfo(file);
+  if (info?.dirty && !allowDirty) {
+    throw new InvalidArgumentError(
+      `'${info.root}' has uncommitted changes. Commit them or pass --allow-dirty to publish anyway.`,
+    );
+  }
+  return info;
+}
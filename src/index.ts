@@ -1,10 +1,16 @@
 #!/usr/bin/env node
 
-import { Command, InvalidArgumentError } from "commander";
+import { Command, InvalidArgumentError, Option } from "commander";
 import * as fs from "node:fs/promises";
+import * as path from "node:path";
 import fetch, { FormData, Blob } from "node-fetch";
+import { WebSocket } from "undici";
 import { signToken } from "@statebacked/token";
-import { PaginationOptions, paginateWithCursor } from "./paginator.js";
+import {
+  PaginationOptions,
+  paginateWithCursor,
+  withPaginationOptions,
+} from "./paginator.js";
 import { addKeysCommands } from "./commands/keys.js";
 import {
   defaultOrgFile,
@@ -25,10 +31,18 @@ import { addMigrationsCommands } from "./commands/migrations.js";
 import { addLogsCommands } from "./commands/logs.js";
 import { addIdentityProviderCommands } from "./commands/identity-providers.js";
 import { addTokenProviderCommands } from "./commands/token-providers.js";
+import { addDevCommands } from "./commands/dev.js";
+import { addDeployCommands } from "./commands/deploy.js";
+import { addProfilesCommands } from "./commands/profiles.js";
+import { addRolloutCommands } from "./commands/rollout.js";
+import { addTestCommands } from "./commands/test.js";
+import { outputFormats, setOutputFormat } from "./output.js";
+import { readObjectInput } from "./input.js";
 
 globalThis.fetch = fetch as any;
 globalThis.FormData = FormData as any;
 globalThis.Blob = Blob as any;
+globalThis.WebSocket ??= WebSocket as any;
 
 const VERSION = "0.1.11";
 
@@ -44,27 +58,46 @@ async function main() {
     })
     .addHelpText(
       "afterAll",
-      "\nDocumentation: https://docs.statebacked.dev\nSupport: support@statebacked.dev\n",
+      "\nOptions that take JSON (events, contexts, auth contexts, claims, mappings, and index selectors) also accept JSON5 or YAML, @path to read the value from a file, or - to read it from stdin.\n\nDocumentation: https://docs.statebacked.dev\nSupport: support@statebacked.dev\n",
     )
     .version(VERSION, "-V, --smply-version", "Output the current version")
     .description(
       `Command line tool for State Backed.\n\nState Backed runs statecharts as a service.`,
     )
-    .option("-t, --access-token <token>", "Access token")
+    .addOption(
+      new Option(
+        "-t, --access-token <token>",
+        "Access token to use instead of the logged in session. Alternatively, set SMPLY_KEY_ID and SMPLY_SECRET_KEY to a key created with 'smply keys create --use ci' to authenticate without logging in.",
+      ).env("SMPLY_ACCESS_TOKEN"),
+    )
     .option(
       "-u, --api-url <url>",
-      "API URL (default: https://api.statebacked.dev)",
-      "https://api.statebacked.dev",
+      "API URL (default: the profile's API URL or https://api.statebacked.dev)",
+    )
+    .option(
+      "--profile <profile>",
+      "Profile to use (default: $SMPLY_PROFILE or the profile selected with 'smply profiles use')",
     )
     .option(
       "-o, --org <org>",
       "Organization ID (must be set if you have access to multiple orgs and have not set a default org via 'smply orgs default set <org-id>')",
-    );
+    )
+    .addOption(
+      new Option(
+        "--output <format>",
+        "Output format. 'table' and 'csv' show each command's default columns. 'ndjson' writes one item per line across all pages.",
+      )
+        .choices(outputFormats)
+        .default("json"),
+    )
+    .hook("preAction", (_, actionCommand) => {
+      setOutputFormat(actionCommand.optsWithGlobals().output);
+    });
 
   program
     .command("login")
     .description(
-      "Log in to State Backed and store a token in ~/.smply/credentials.",
+      "Log in to State Backed and store a token in the profile's credentials file (~/.smply/credentials for the default profile).",
     )
     .option(
       "--no-store",
@@ -94,7 +127,9 @@ async function main() {
 
   const orgs = program.command("orgs").description("Manage organizations");
 
-  orgs.command("list").description("List organizations").action(listOrgs);
+  withPaginationOptions(
+    orgs.command("list").description("List organizations"),
+  ).action(listOrgs);
 
   orgs
     .command("create")
@@ -104,7 +139,9 @@ async function main() {
 
   const defaultOrg = orgs
     .command("default")
-    .description("Default organization. Stored in ~/.smply/default-org.");
+    .description(
+      "Default organization. Stored per profile (in ~/.smply/default-org for the default profile).",
+    );
 
   defaultOrg
     .command("set")
@@ -172,6 +209,16 @@ async function main() {
 
   addTokenProviderCommands(program);
 
+  addDevCommands(program);
+
+  addDeployCommands(program);
+
+  addRolloutCommands(program);
+
+  addTestCommands(program);
+
+  addProfilesCommands(program);
+
   try {
     await program.parseAsync();
   } catch (err) {
@@ -200,7 +247,7 @@ async function acceptInvitation(
   );
 
   const res = await fetch(
-    `${getApiURL(options)}/${encodeURIComponent(opts.invitation)}`,
+    `${await getApiURL(options)}/${encodeURIComponent(opts.invitation)}`,
     {
       method: "PUT",
       headers,
@@ -232,7 +279,7 @@ async function sendInvitation(
 
   const headers = await getHeaders(options);
 
-  const res = await fetch(`${getApiURL(options)}/org-members`, {
+  const res = await fetch(`${await getApiURL(options)}/org-members`, {
     method: "POST",
     headers,
     body: JSON.stringify({
@@ -256,9 +303,11 @@ async function launchBilling(_: unknown, options: Command) {
   console.log(url);
 }
 
-async function getDefaultOrg() {
+async function getDefaultOrg(_: unknown, options: Command) {
   try {
-    const org = await fs.readFile(defaultOrgFile(), { encoding: "utf8" });
+    const org = await fs.readFile(await defaultOrgFile(options), {
+      encoding: "utf8",
+    });
     console.log(org);
   } catch (e) {
     if (e?.code === "ENOENT") {
@@ -276,7 +325,9 @@ async function setDefaultOrg(_: { org: string }, options: Command) {
     throw new InvalidArgumentError("-o or --org is required");
   }
 
-  await fs.writeFile(defaultOrgFile(), opts.org, {
+  const orgFile = await defaultOrgFile(options);
+  await fs.mkdir(path.dirname(orgFile), { recursive: true, mode: 0o700 });
+  await fs.writeFile(orgFile, opts.org, {
     encoding: "utf8",
     mode: 0o600,
   });
@@ -290,6 +341,8 @@ async function listOrgs(opts: PaginationOptions, options: Command) {
   await paginateWithCursor(
     (cursor) => client.orgs.list({ cursor }),
     (page) => page.orgs,
+    opts,
+    ["id", "name", "role", "createdAt"],
   );
 }
 
@@ -308,7 +361,7 @@ async function generateToken(opts: {
 }) {
   const jwt = await signToken(
     { stateBackedKeyId: opts.key, stateBackedSecretKey: opts.secret },
-    JSON.parse(opts.claims),
+    await readObjectInput(opts.claims, "--claims"),
     {
       expires: {
         in: "24h",
@@ -321,7 +374,10 @@ async function generateToken(opts: {
 }
 
 async function whoami(_: unknown, options: Command) {
-  const s = getSupabaseClient({ store: false });
+  const s = getSupabaseClient({
+    store: false,
+    profile: options.optsWithGlobals().profile,
+  });
   const { data, error } = await s.auth.getUser();
   if (error) {
     console.error(error.message);
@@ -0,0 +1,136 @@
+import * as fs from "node:fs/promises";
+import JSON5 from "json5";
+import { parse as parseYAML } from "yaml";
+import { InvalidArgumentError } from "commander";
+
+let readStdinFor: string | undefined;
+
+async function readStdin(option: string) {
+  if (readStdinFor) {
+    throw new InvalidArgumentError(
+      `${option}: stdin was already read for ${readStdinFor}`,
+    );
+  }
+  readStdinFor = option;
+
+  const chunks: Array<Buffer> = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function readInputFile(file: string, option: string) {
+  try {
+    return await fs.readFile(file, { encoding: "utf8" });
+  } catch (e) {
+    if (e?.code === "ENOENT") {
+      throw new InvalidArgumentError(`${option}: '${file}' does not exist`);
+    }
+    throw e;
+  }
+}
+
+function parse(
+  text: string,
+  source: string,
+  option: string,
+  isYaml = false,
+): unknown {
+  if (isYaml) {
+    try {
+      return parseYAML(text);
+    } catch (e) {
+      throw new InvalidArgumentError(
+        `${option}: ${source} is not valid YAML: ${e.message}`,
+      );
+    }
+  }
+
+  try {
+    return JSON5.parse(text);
+  } catch (json5Err) {
+    try {
+      const value = parseYAML(text);
+      if (value !== null && typeof value === "object") {
+        return value;
+      }
+    } catch (_) {
+      // report the JSON5 error below since most inputs are JSON
+    }
+
+    throw new InvalidArgumentError(
+      `${option}: ${source} is not valid JSON, JSON5, or YAML: ${json5Err.message}`,
+    );
+  }
+}
+
+/**
+ * Read the value of an option that accepts structured data: inline JSON,
+ * JSON5, or YAML, `@path` to read a file, or `-` to read stdin.
+ * `option` is the flag to name in errors (e.g. "--context").
+ */
+export async function readInput(value: string, option: string) {
+  if (value === "-") {
+    return parse(await readStdin(option), "stdin", option);
+  }
+
+  if (value.startsWith("@")) {
+    const file = value.slice(1);
+    return parse(
+      await readInputFile(file, option),
+      `'${file}'`,
+      option,
+      /\.ya?ml$/i.test(file),
+    );
+  }
+
+  return parse(value, "value", option);
+}
+
+function asObject(obj: unknown, option: string) {
+  if (obj === null || typeof obj !== "object" || Array.isArray(obj)) {
+    throw new InvalidArgumentError(`${option} must be an object`);
+  }
+  return obj as Record<string, any>;
+}
+
+export async function readObjectInput(
+  value: string,
+  option: string,
+): Promise<Record<string, any>> {
+  return asObject(await readInput(value, option), option);
+}
+
+/**
+ * Parse inline JSON, JSON5, or YAML into an object. Unlike readObjectInput,
+ * `@path` and `-` are not special, so it is safe for values that come from
+ * data files rather than the command line.
+ */
+export function parseInlineObject(
+  value: string,
+  option: string,
+): Record<string, any> {
+  return asObject(parse(value, "value", option), option);
+}
+
+/**
+ * Events may be an event type or an object with a type, so inline values
+ * that don't look like objects are treated as event types.
+ */
+export async function readEvent(value: string, option = "--event") {
+  if (value !== "-" && !value.startsWith("@") && !/^\s*\{/.test(value)) {
+    return value;
+  }
+
+  const event = await readInput(value, option);
+  if (
+    typeof event !== "string" &&
+    typeof (event as { type?: unknown })?.type !== "string"
+  ) {
+    throw new InvalidArgumentError(
+      `${option} must be an event type or an object with a string 'type'`,
+    );
+  }
+  return event as string | { type: string };
+}
@@ -0,0 +1,337 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { createHash } from "node:crypto";
+import { InvalidArgumentError } from "commander";
+import { BuildOpts } from "./utils.js";
+import { GitInfo, gitVersionReference } from "./git.js";
+
+export const defaultManifestFile = "smply.config.json";
+
+export type VersionReferenceSource =
+  | string
+  | { env: string }
+  | { packageJson: string };
+
+export type MigrationManifest = BuildOpts & {
+  from: string;
+  to: string;
+};
+
+export type MachineManifest = BuildOpts & {
+  indexSelectors?: Record<string, string>;
+  versionReference?: VersionReferenceSource;
+  migrations?: Array<MigrationManifest>;
+};
+
+export type Manifest = {
+  machines: Record<string, MachineManifest>;
+};
+
+export async function manifestExists(file: string) {
+  try {
+    await fs.access(file);
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+/**
+ * Read and validate a project manifest. Any entrypoint paths are resolved
+ * relative to the manifest file.
+ */
+export async function loadManifest(file: string): Promise<Manifest> {
+  const raw = await (async () => {
+    try {
+      return await fs.readFile(file, { encoding: "utf8" });
+    } catch (e) {
+      if (e?.code === "ENOENT") {
+        throw new InvalidArgumentError(`manifest '${file}' does not exist`);
+      }
+      throw e;
+    }
+  })();
+
+  const manifest = (() => {
+    try {
+      return JSON.parse(raw);
+    } catch (e) {
+      throw new InvalidArgumentError(
+        `manifest '${file}' is not valid JSON: ${e.message}`,
+      );
+    }
+  })();
+
+  if (typeof manifest?.machines !== "object" || manifest.machines === null) {
+    throw new InvalidArgumentError(
+      `manifest '${file}' must have a 'machines' object mapping machine names to machine configurations`,
+    );
+  }
+
+  const dir = path.dirname(file);
+  const resolveBuildOpts = (where: string, opts: BuildOpts): BuildOpts => {
+    const count = [opts.js, opts.node, opts.deno].filter(Boolean).length;
+    if (count !== 1) {
+      throw new InvalidArgumentError(
+        `${where} must specify exactly one of 'js' or 'node'`,
+      );
+    }
+
+    return {
+      js: opts.js && path.resolve(dir, opts.js),
+      node: opts.node && path.resolve(dir, opts.node),
+      deno: opts.deno && path.resolve(dir, opts.deno),
+    };
+  };
+
+  const machines: Record<string, MachineManifest> = {};
+  for (const [name, machine] of Object.entries<MachineManifest>(
+    manifest.machines,
+  )) {
+    if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+      throw new InvalidArgumentError(
+        `machine name '${name}' must use only alphanumeric characters, underscores, and dashes`,
+      );
+    }
+
+    if (
+      machine.indexSelectors &&
+      Object.entries(machine.indexSelectors).some(
+        ([k, v]) => !k || typeof v !== "string",
+      )
+    ) {
+      throw new InvalidArgumentError(
+        `indexSelectors for machine '${name}' must map index names to JSON path expressions`,
+      );
+    }
+
+    machines[name] = {
+      ...machine,
+      ...resolveBuildOpts(`machine '${name}'`, machine),
+      versionReference:
+        typeof machine.versionReference === "object" &&
+        "packageJson" in machine.versionReference
+          ? {
+              packageJson: path.resolve(
+                dir,
+                machine.versionReference.packageJson,
+              ),
+            }
+          : machine.versionReference,
+      migrations: (machine.migrations ?? []).map((migration, i) => {
+        if (!migration.from || !migration.to) {
+          throw new InvalidArgumentError(
+            `migration ${i} for machine '${name}' must specify 'from' and 'to' version references`,
+          );
+        }
+
+        return {
+          ...migration,
+          ...resolveBuildOpts(
+            `migration ${i} for machine '${name}'`,
+            migration,
+          ),
+        };
+      }),
+    };
+  }
+
+  return { machines };
+}
+
+/**
+ * Resolve a machine's version reference. Without a configured source, we use
+ * the tag or commit of the git repository the machine is built from and fall
+ * back to "0.0.1" outside of git.
+ */
+export async function resolveVersionReference(
+  source: VersionReferenceSource | undefined,
+  git: GitInfo | undefined,
+) {
+  if (typeof source === "undefined") {
+    return git ? gitVersionReference(git) : "0.0.1";
+  }
+
+  if (typeof source === "string") {
+    return source;
+  }
+
+  if ("env" in source) {
+    const ref = process.env[source.env];
+    if (!ref) {
+      throw new InvalidArgumentError(
+        `environment variable '${source.env}' for version reference is not set`,
+      );
+    }
+    return ref;
+  }
+
+  const pkg = JSON.parse(
+    await fs.readFile(source.packageJson, { encoding: "utf8" }),
+  );
+  if (typeof pkg.version !== "string") {
+    throw new InvalidArgumentError(`'${source.packageJson}' has no version`);
+  }
+
+  return pkg.version as string;
+}
+
+/**
+ * Fingerprint of everything that is published in a machine version: a hash of
+ * the code and a hash of the index selectors.
+ * We record it in the version's client info so that we can tell whether a
+ * deployed version matches a local build.
+ */
+export function versionFingerprint(
+  code: string,
+  indexSelectors?: Record<string, string>,
+) {
+  const selectors = Object.entries(indexSelectors ?? {}).sort(([a], [b]) =>
+    a.localeCompare(b),
+  );
+
+  return [
+    createHash("sha256").update(code).digest("hex").slice(0, 16),
+    createHash("sha256")
+      .update(JSON.stringify(selectors))
+      .digest("hex")
+      .slice(0, 8),
+  ].join(".");
+}
+
+export function compareFingerprints(
+  deployed: string | undefined,
+  local: string,
+) {
+  const [deployedCode, deployedSelectors] = deployed?.split(".") ?? [];
+  const [localCode, localSelectors] = local.split(".");
+
+  return {
+    codeChanged: deployedCode !== localCode,
+    indexSelectorsChanged: deployedSelectors !== localSelectors,
+  };
+}
+
+const fingerprintSuffix =
+  /(?:\+git\.([0-9a-f]+(?:\.dirty)?))?(?:\+gz\.([0-9a-f]+))?\+sha256\.([0-9a-f]+(?:\.[0-9a-f]+)?)$/;
+
+/**
+ * Hash of the gzipped bundle exactly as it was uploaded.
+ */
+export function bundleHash(gzippedCode: Uint8Array) {
+  return createHash("sha256").update(gzippedCode).digest("hex").slice(0, 16);
+}
+
+export type VersionProvenance = {
+  /** git commit the bundle was built from, suffixed with ".dirty" for uncommitted changes */
+  commit?: string;
+  bundleHash?: string;
+};
+
+/**
+ * Client info recording the fingerprint of a version and, if known, the commit
+ * it was built from and the hash of its uploaded bundle.
+ */
+export function withFingerprint(
+  versionReference: string,
+  fingerprint: string,
+  provenance: VersionProvenance = {},
+) {
+  return [
+    versionReference,
+    provenance.commit && `+git.${provenance.commit}`,
+    provenance.bundleHash && `+gz.${provenance.bundleHash}`,
+    `+sha256.${fingerprint}`,
+  ]
+    .filter(Boolean)
+    .join("");
+}
+
+export function parseClientInfo(clientInfo: string | undefined) {
+  const match = fingerprintSuffix.exec(clientInfo ?? "");
+
+  return {
+    versionReference: match
+      ? clientInfo.slice(0, match.index)
+      : clientInfo ?? "",
+    commit: match?.[1],
+    bundleHash: match?.[2],
+    fingerprint: match?.[3],
+  };
+}
+
+export type MigrationEdge = { from: string; to: string };
+
+/**
+ * The migrations between version IDs that the manifest's migrations lead to.
+ * When a version is published, each migration into its version reference is
+ * uploaded from every earlier version with the migration's `from` reference.
+ * The State Backed API does not list migrations, so this is a reconstruction
+ * that assumes versions were published with this manifest.
+ */
+export function manifestMigrationEdges(
+  migrations: Array<MigrationManifest>,
+  versions: Array<{ id: string; clientInfo: string; createdAt: string }>,
+): Array<MigrationEdge> {
+  const refs = new Map(
+    versions.map((v) => [v.id, parseClientInfo(v.clientInfo).versionReference]),
+  );
+
+  const edges: Array<MigrationEdge> = [];
+  for (const to of versions) {
+    for (const migration of migrations) {
+      if (migration.to !== refs.get(to.id)) {
+        continue;
+      }
+
+      for (const from of versions) {
+        if (
+          refs.get(from.id) === migration.from &&
+          from.createdAt < to.createdAt
+        ) {
+          edges.push({ from: from.id, to: to.id });
+        }
+      }
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * The shortest chain of version IDs that `edges` take from one version to
+ * another, or undefined if there is none.
+ */
+export function findVersionPath(
+  edges: Array<MigrationEdge>,
+  from: string,
+  to: string,
+): Array<string> | undefined {
+  if (from === to) {
+    return [from];
+  }
+
+  const previous = new Map<string, string>();
+  const queue = [from];
+  while (queue.length > 0) {
+    const id = queue.shift();
+    for (const edge of edges) {
+      if (edge.from !== id || edge.to === from || previous.has(edge.to)) {
+        continue;
+      }
+
+      previous.set(edge.to, id);
+      if (edge.to === to) {
+        const path = [to];
+        while (path[0] !== from) {
+          path.unshift(previous.get(path[0]));
+        }
+        return path;
+      }
+
+      queue.push(edge.to);
+    }
+  }
+
+  return undefined;
+}
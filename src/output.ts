@@ -0,0 +1,131 @@
+import { stringify as toYAML } from "yaml";
+
+export const outputFormats = ["json", "ndjson", "table", "yaml", "csv"];
+
+export type OutputFormat = "json" | "ndjson" | "table" | "yaml" | "csv";
+
+let outputFormat: OutputFormat = "json";
+
+export function setOutputFormat(format: OutputFormat | undefined) {
+  outputFormat = format ?? "json";
+}
+
+export function getOutputFormat() {
+  return outputFormat;
+}
+
+export function writeObj(obj: any) {
+  switch (outputFormat) {
+    case "json":
+      console.log(JSON.stringify(obj, null, 2));
+      return;
+    case "ndjson":
+      if (Array.isArray(obj)) {
+        obj.forEach((item) => console.log(JSON.stringify(item)));
+        return;
+      }
+      console.log(JSON.stringify(obj));
+      return;
+    case "yaml":
+      process.stdout.write(toYAML(obj));
+      return;
+    case "table":
+    case "csv":
+      if (Array.isArray(obj)) {
+        createItemWriter().write(obj);
+        return;
+      }
+
+      if (obj === null || typeof obj !== "object") {
+        console.log(obj);
+        return;
+      }
+
+      createItemWriter(["key", "value"]).write(
+        Object.entries(flatten(obj)).map(([key, value]) => ({ key, value })),
+      );
+      return;
+  }
+}
+
+/**
+ * Writes successive batches (e.g. pages) of items as one logical list:
+ * a JSON array per batch, one JSON object per line, a continued YAML
+ * sequence, or table or CSV rows for `columns` (dotted paths into each item;
+ * defaults to every key of the first batch). Table column widths fit the
+ * first batch.
+ */
+export function createItemWriter(columns?: Array<string>) {
+  let cols = columns;
+  let wroteHeader = false;
+  let widths: Array<number> | undefined;
+  const format = (row: Array<string>) =>
+    row
+      .map((c, i) => c.padEnd(widths[i]))
+      .join("  ")
+      .trimEnd();
+
+  return {
+    write(items: Array<any>) {
+      if (!["table", "csv"].includes(outputFormat)) {
+        writeObj(items);
+        return;
+      }
+
+      const objs = items.map((item) =>
+        item !== null && typeof item === "object" ? item : { value: item },
+      );
+      const rows = objs.map((obj) => flatten(obj));
+
+      cols ??= Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+      const cells = rows.map((row, i) =>
+        cols.map((col) => cell(col in row ? row[col] : objs[i][col])),
+      );
+
+      if (outputFormat === "csv") {
+        if (!wroteHeader) {
+          console.log(cols.map(csvEscape).join(","));
+          wroteHeader = true;
+        }
+
+        cells.forEach((row) => console.log(row.map(csvEscape).join(",")));
+        return;
+      }
+
+      // pages are written as they arrive, so the first page sets the column
+      // widths and the header is only written once
+      if (!widths) {
+        const header = cols.map((col) => col.toUpperCase());
+        widths = header.map((h, i) =>
+          Math.max(h.length, ...cells.map((row) => row[i].length)),
+        );
+        console.log(format(header));
+      }
+      cells.forEach((row) => console.log(format(row)));
+    },
+  };
+}
+
+function flatten(obj: Record<string, any>, prefix = "") {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      Object.assign(out, flatten(value, `${prefix}${key}.`));
+    } else {
+      out[`${prefix}${key}`] = value;
+    }
+  }
+  return out;
+}
+
+function cell(value: unknown) {
+  if (typeof value === "undefined" || value === null) {
+    return "";
+  }
+
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function csvEscape(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -1,31 +1,105 @@
 import { Command } from "commander";
-import { prompt, writeObj } from "./utils.js";
+import { nonNegativeInteger, positiveInteger, prompt } from "./utils.js";
+import { createItemWriter } from "./output.js";
 
+/**
+ * Print each page of items. `columns` are the default columns for table and
+ * CSV output.
+ *
+ * When attached to a TTY, we prompt before fetching each page unless --all or
+ * --limit is specified. Otherwise, we fetch every page (up to --limit items).
+ * If we stop before the last page, the cursor to resume from is written to
+ * stderr. Cursors identify pages, so if --limit ends partway through a page,
+ * we also write the offset of the next item within that page, which --offset
+ * skips when resuming.
+ */
 export async function paginateWithCursor<T extends { cursor?: string }>(
   getPage: (cursor?: string) => Promise<T>,
   getItems: (page: T) => Array<any>,
+  opts: PaginationOptions,
+  columns?: Array<string>,
 ) {
-  const shouldPaginate = process.stdout.isTTY;
-  let cursor: string | undefined;
+  const shouldPaginate =
+    process.stdout.isTTY && !opts.all && typeof opts.limit === "undefined";
+  const writer = createItemWriter(columns);
+  let remaining = opts.limit ?? Infinity;
+  let cursor = opts.cursor;
+  let offset = opts.offset ?? 0;
   do {
+    const pageCursor = cursor;
     const page = await getPage(cursor);
+    const items = getItems(page).slice(offset);
 
     cursor = page.cursor;
-    writeObj(getItems(page));
+    writer.write(items.slice(0, remaining));
+
+    if (items.length > remaining) {
+      // resume partway through this page
+      writeNextCursor(pageCursor, offset + remaining);
+      return;
+    }
+
+    offset = 0;
+
+    remaining -= items.length;
+    if (remaining <= 0) {
+      writeNextCursor(cursor);
+      return;
+    }
 
     if (cursor && shouldPaginate) {
       const quit = await prompt("Press enter for more (q + Enter to quit)...");
       if (quit === "q") {
+        writeNextCursor(cursor);
         return;
       }
     }
   } while (cursor);
 }
 
+function writeNextCursor(cursor: string | undefined, offset?: number) {
+  if (cursor || offset) {
+    console.error(JSON.stringify({ cursor, offset }));
+  }
+}
+
 export function withPaginationOptions(cmd: Command) {
-  return cmd.option("-c, --cursor <cursor>", "Pagination cursor");
+  return cmd
+    .option(
+      "-c, --cursor <cursor>",
+      "Pagination cursor to resume from. When output stops before the last page, the cursor to resume from is written to stderr.",
+    )
+    .option(
+      "--offset <offset>",
+      "Number of items to skip from the first page. When --limit stops output partway through a page, the offset to resume from is written to stderr with the cursor.",
+      nonNegativeInteger("offset"),
+    )
+    .option("--all", "Fetch all pages without prompting", false)
+    .option(
+      "--limit <limit>",
+      "Maximum number of items to output",
+      positiveInteger("limit"),
+    );
 }
 
 export type PaginationOptions = {
   cursor?: string;
+  offset?: number;
+  all?: boolean;
+  limit?: number;
 };
+
+export async function getAllItems<T extends { cursor?: string }, U>(
+  getPage: (cursor?: string) => Promise<T>,
+  getItems: (page: T) => Array<U>,
+) {
+  const items: Array<U> = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getPage(cursor);
+    cursor = page.cursor;
+    items.push(...getItems(page));
+  } while (cursor);
+
+  return items;
+}
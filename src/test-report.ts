@@ -0,0 +1,98 @@
+export type TestResult = {
+  file: string;
+  name: string;
+  ok: boolean;
+  durationMs: number;
+  failure?: string;
+};
+
+export const testReporters = ["tap", "junit"];
+
+export type TestReporter = "tap" | "junit";
+
+function toTap(results: Array<TestResult>) {
+  const lines = ["TAP version 13", `1..${results.length}`];
+
+  results.forEach((r, i) => {
+    lines.push(`${r.ok ? "ok" : "not ok"} ${i + 1} - ${r.file}: ${r.name}`);
+    if (!r.ok) {
+      lines.push("  ---");
+      lines.push(`  message: ${JSON.stringify(r.failure)}`);
+      lines.push(`  duration_ms: ${r.durationMs}`);
+      lines.push("  ...");
+    }
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+function xmlEscape(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function seconds(ms: number) {
+  return (ms / 1000).toFixed(3);
+}
+
+function toJUnit(results: Array<TestResult>) {
+  const files = Array.from(new Set(results.map((r) => r.file)));
+  const total = (rs: Array<TestResult>) =>
+    rs.reduce((sum, r) => sum + r.durationMs, 0);
+  const failures = (rs: Array<TestResult>) => rs.filter((r) => !r.ok).length;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="smply" tests="${results.length}" failures="${failures(
+      results,
+    )}" time="${seconds(total(results))}">`,
+  ];
+
+  for (const file of files) {
+    const suite = results.filter((r) => r.file === file);
+    lines.push(
+      `  <testsuite name="${xmlEscape(file)}" tests="${
+        suite.length
+      }" failures="${failures(suite)}" time="${seconds(total(suite))}">`,
+    );
+
+    for (const r of suite) {
+      const attrs = `name="${xmlEscape(r.name)}" classname="${xmlEscape(
+        file,
+      )}" time="${seconds(r.durationMs)}"`;
+      if (r.ok) {
+        lines.push(`    <testcase ${attrs}/>`);
+        continue;
+      }
+
+      lines.push(`    <testcase ${attrs}>`);
+      lines.push(
+        `      <failure message="${xmlEscape(r.failure)}">${xmlEscape(
+          r.failure,
+        )}</failure>`,
+      );
+      lines.push("    </testcase>");
+    }
+
+    lines.push("  </testsuite>");
+  }
+
+  lines.push("</testsuites>");
+  return lines.join("\n") + "\n";
+}
+
+export function formatTestReport(
+  results: Array<TestResult>,
+  reporter: TestReporter,
+) {
+  switch (reporter) {
+    case "tap":
+      return toTap(results);
+    case "junit":
+      return toJUnit(results);
+  }
+}
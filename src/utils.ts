@@ -9,13 +9,14 @@ import {
 } from "@supabase/supabase-js";
 import { Database } from "./supabase.js";
 import { StateBackedClient } from "@statebacked/client";
+import { signToken } from "@statebacked/token";
 import { build } from "./build.js";
+import { writeObj } from "./output.js";
+import { readObjectInput } from "./input.js";
 
 export type SupabaseClient = RawSupabaseClient<Database>;
 
-export function writeObj(obj: any) {
-  console.log(JSON.stringify(obj, null, 2));
-}
+export { writeObj };
 
 export async function gzip(data: string) {
   return new Promise<Uint8Array>((resolve, reject) => {
@@ -45,33 +46,136 @@ export async function prompt(q: string): Promise<string> {
   });
 }
 
-export function getApiURL(options: Command) {
-  return options.optsWithGlobals().apiUrl ?? "https://api.statebacked.dev";
+export function positiveInteger(name: string) {
+  return (value: string) => {
+    const n = parseInt(value, 10);
+    if (!Number.isInteger(n) || n <= 0 || String(n) !== value.trim()) {
+      throw new InvalidArgumentError(`${name} must be a positive integer`);
+    }
+    return n;
+  };
+}
+
+export function nonNegativeInteger(name: string) {
+  return (value: string) => {
+    const n = parseInt(value, 10);
+    if (!Number.isInteger(n) || n < 0 || String(n) !== value.trim()) {
+      throw new InvalidArgumentError(`${name} must be a non-negative integer`);
+    }
+    return n;
+  };
 }
 
-export function defaultOrgFile() {
-  return path.join(getSmplyConfigDir(), "default-org");
+export const defaultApiURL = "https://api.statebacked.dev";
+
+export async function getApiURL(options: Command) {
+  const apiUrl = options.optsWithGlobals().apiUrl;
+  if (apiUrl) {
+    return apiUrl;
+  }
+
+  const config = await readProfileConfig(options.optsWithGlobals().profile);
+  return config.apiUrl ?? defaultApiURL;
+}
+
+export async function defaultOrgFile(options: Command) {
+  return path.join(
+    await getProfileDir(options.optsWithGlobals().profile),
+    "default-org",
+  );
+}
+
+/**
+ * Resolve the token to authenticate with, in order of preference:
+ * --access-token (or $SMPLY_ACCESS_TOKEN), a short-lived token signed with
+ * $SMPLY_KEY_ID and $SMPLY_SECRET_KEY, or the logged in user's session.
+ *
+ * Tokens signed with a key carry the auth context as their claims instead of
+ * acting as a user.
+ */
+async function getAccessToken(
+  options: Command,
+  authContext?: any,
+): Promise<{ token: string; actAs?: any }> {
+  const { accessToken } = options.optsWithGlobals();
+  if (accessToken) {
+    return { token: accessToken, actAs: authContext };
+  }
+
+  const keyId = process.env.SMPLY_KEY_ID;
+  const secretKey = process.env.SMPLY_SECRET_KEY;
+  if (keyId || secretKey) {
+    if (!keyId || !secretKey) {
+      throw new InvalidArgumentError(
+        "SMPLY_KEY_ID and SMPLY_SECRET_KEY must both be set to authenticate with a key",
+      );
+    }
+
+    const token = await signToken(
+      { stateBackedKeyId: keyId, stateBackedSecretKey: secretKey },
+      authContext ?? {},
+      {
+        expires: {
+          in: "1h",
+        },
+        issuer: "https://cli.statebacked.dev/",
+      },
+    );
+
+    return { token };
+  }
+
+  const s = await getLoggedInSupabaseClient(options);
+  return {
+    token: (await s.auth.getSession()).data?.session?.access_token,
+    actAs: authContext,
+  };
 }
 
 export async function getStatebackedClient(
   options: Command,
   opts?: { authContext?: any; token?: string },
 ) {
-  const apiHost = getApiURL(options);
-  const s = await getLoggedInSupabaseClient(options);
-  const accessToken = (await s.auth.getSession()).data?.session?.access_token;
+  const apiHost = await getApiURL(options);
+  const { token, actAs } = opts?.token
+    ? { token: opts.token, actAs: opts.authContext }
+    : await getAccessToken(options, opts?.authContext);
   const orgId = await getEffectiveOrg(options);
 
-  return new StateBackedClient(opts?.token ?? accessToken, {
+  return new StateBackedClient(token, {
     orgId,
     apiHost,
-    actAs: opts?.authContext,
+    actAs,
+  });
+}
+
+/**
+ * Client that acts as the end-user identified by --token or --auth-context
+ * so that requests pass through the machine's authorizers.
+ */
+export async function getActingClient(
+  opts: { token?: string; authContext?: string },
+  options: Command,
+) {
+  if (
+    (!opts.token && !opts.authContext) ||
+    (!!opts.token && !!opts.authContext)
+  ) {
+    throw new InvalidArgumentError(
+      "One of --token or --auth-context is required",
+    );
+  }
+
+  return getStatebackedClient(options, {
+    authContext:
+      opts.authContext &&
+      (await readObjectInput(opts.authContext, "--auth-context")),
+    token: opts.token,
   });
 }
 
 export async function getHeaders(options: Command) {
-  const s = await getLoggedInSupabaseClient(options);
-  const accessToken = (await s.auth.getSession()).data?.session?.access_token;
+  const { token: accessToken } = await getAccessToken(options);
   const org = await getEffectiveOrg(options);
 
   return {
@@ -87,7 +191,9 @@ export async function getEffectiveOrg(options: Command) {
   }
 
   try {
-    return await fs.readFile(defaultOrgFile(), { encoding: "utf8" });
+    return await fs.readFile(await defaultOrgFile(options), {
+      encoding: "utf8",
+    });
   } catch (_) {
     return null;
   }
@@ -97,6 +203,83 @@ export function getSmplyConfigDir() {
   return path.join(process.env.HOME ?? ".", ".smply");
 }
 
+export const defaultProfile = "default";
+
+export function currentProfileFile() {
+  return path.join(getSmplyConfigDir(), "current-profile");
+}
+
+export function profilesDir() {
+  return path.join(getSmplyConfigDir(), "profiles");
+}
+
+export function validateProfileName(name: string) {
+  if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+    throw new InvalidArgumentError(
+      "profile name must use only alphanumeric characters, underscores, and dashes",
+    );
+  }
+  return name;
+}
+
+/**
+ * The profile to use: --profile, then SMPLY_PROFILE, then the profile
+ * selected with 'smply profiles use', then the default profile.
+ */
+export async function getProfileName(profile?: string) {
+  if (profile) {
+    return validateProfileName(profile);
+  }
+
+  if (process.env.SMPLY_PROFILE) {
+    return validateProfileName(process.env.SMPLY_PROFILE);
+  }
+
+  try {
+    const current = await fs.readFile(currentProfileFile(), {
+      encoding: "utf8",
+    });
+    return current.trim() || defaultProfile;
+  } catch (e) {
+    if (e?.code === "ENOENT") {
+      return defaultProfile;
+    }
+    throw e;
+  }
+}
+
+/**
+ * The default profile lives directly in ~/.smply so that credentials stored
+ * before profiles existed keep working.
+ */
+export function profileDir(name: string) {
+  return name === defaultProfile
+    ? getSmplyConfigDir()
+    : path.join(profilesDir(), name);
+}
+
+export async function getProfileDir(profile?: string) {
+  return profileDir(await getProfileName(profile));
+}
+
+export type ProfileConfig = {
+  apiUrl?: string;
+};
+
+export async function readProfileConfig(
+  profile?: string,
+): Promise<ProfileConfig> {
+  const file = path.join(await getProfileDir(profile), "config.json");
+  try {
+    return JSON.parse(await fs.readFile(file, { encoding: "utf8" }));
+  } catch (e) {
+    if (e?.code === "ENOENT") {
+      return {};
+    }
+    throw e;
+  }
+}
+
 function toPrettyId(prefix: string, id: string | undefined) {
   return (
     id &&
@@ -134,7 +317,8 @@ export { whileSuppressingOrgCreationPrompt };
 
 export async function login(opts: { store: boolean }, cmd: Command) {
   const shouldStore = opts.store;
-  const s = getSupabaseClient({ store: shouldStore });
+  const profile = cmd.optsWithGlobals().profile;
+  const s = getSupabaseClient({ store: shouldStore, profile });
   const email = await prompt("What is your email address?");
   if (!email) {
     console.error("No email provided");
@@ -159,12 +343,13 @@ export async function login(opts: { store: boolean }, cmd: Command) {
   }
 
   if (shouldStore) {
+    const orgFile = await defaultOrgFile(cmd);
     try {
-      await fs.unlink(defaultOrgFile());
+      await fs.unlink(orgFile);
     } catch (e) {
       if (e.code !== "ENOENT") {
         console.error(
-          `failed to remove default org file at '${defaultOrgFile()}'. remove manually to avoid errors.`,
+          `failed to remove default org file at '${orgFile}'. remove manually to avoid errors.`,
           e.message,
         );
       }
@@ -300,6 +485,12 @@ export async function getLoggedInSupabaseClient(cmd: Command) {
   });
   const sess = await s.auth.getSession();
   if (!sess.data.session) {
+    if (!process.stdin.isTTY) {
+      throw new Error(
+        "Could not find credentials. Run 'smply login', set SMPLY_KEY_ID and SMPLY_SECRET_KEY, or pass --access-token.",
+      );
+    }
+
     console.error("Could not find credentials. Log in or sign up.");
     await login({ store: true }, cmd);
     const s = getSupabaseClient({
@@ -319,13 +510,16 @@ export async function getLoggedInSupabaseClient(cmd: Command) {
 export function getSupabaseClient({
   accessToken,
   store,
+  profile,
 }: {
   accessToken?: string;
   store?: boolean;
+  profile?: string;
 }) {
   const projectRef = "wzmjedymhlqansmxtsmo";
   const expectedKey = `sb-${projectRef}-auth-token`;
-  const tokenFile = path.join(getSmplyConfigDir(), "credentials");
+  const getTokenFile = async () =>
+    path.join(await getProfileDir(profile), "credentials");
 
   return createClient<Database>(
     `https://${projectRef}.supabase.co`,
@@ -340,7 +534,9 @@ export function getSupabaseClient({
               }
 
               try {
-                const item = await fs.readFile(tokenFile, { encoding: "utf8" });
+                const item = await fs.readFile(await getTokenFile(), {
+                  encoding: "utf8",
+                });
                 return item;
               } catch (e) {
                 if (e.code === "ENOENT") {
@@ -356,6 +552,7 @@ export function getSupabaseClient({
           },
           setItem: async (key: string, value: string) => {
             if (key === expectedKey && store) {
+              const tokenFile = await getTokenFile();
               await fs.mkdir(path.dirname(tokenFile), {
                 recursive: true,
                 mode: 0o700,
@@ -0,0 +1,300 @@
+import { spawn } from "node:child_process";
+import { InvalidArgumentError } from "commander";
+
+export const diagramFormats = ["mermaid", "dot", "svg"];
+
+export type DiagramFormat = "mermaid" | "dot" | "svg";
+
+type StateValue = string | { [key: string]: StateValue };
+
+type TransitionDefinition = {
+  eventType: string;
+  target?: Array<string | { id: string }>;
+  cond?: { name?: string; type?: string };
+};
+
+type StateNodeDefinition = {
+  id: string;
+  key: string;
+  type: "atomic" | "compound" | "parallel" | "final" | "history";
+  initial?: string;
+  states: Record<string, StateNodeDefinition>;
+  transitions: Array<TransitionDefinition>;
+};
+
+type Edge = { source: string; target: string; label: string };
+
+function walk(node: StateNodeDefinition): Array<StateNodeDefinition> {
+  return [node, ...Object.values(node.states).flatMap(walk)];
+}
+
+function isLeaf(node: StateNodeDefinition) {
+  return Object.keys(node.states).length === 0;
+}
+
+function eventLabel(t: TransitionDefinition) {
+  const delay = /^xstate\.after\((\d+)\)/.exec(t.eventType);
+  const event = delay
+    ? `after ${delay[1]}ms`
+    : t.eventType.startsWith("done.state.")
+    ? "onDone"
+    : t.eventType || "always";
+  const cond = t.cond?.name ?? t.cond?.type;
+  return cond ? `${event} [${cond}]` : event;
+}
+
+function edges(root: StateNodeDefinition): Array<Edge> {
+  return walk(root).flatMap((node) =>
+    node.transitions.flatMap((t) =>
+      (t.target ?? []).map((target) => ({
+        source: node.id,
+        target:
+          typeof target === "string" ? target.replace(/^#/, "") : target.id,
+        label: eventLabel(t),
+      })),
+    ),
+  );
+}
+
+/**
+ * IDs of the state nodes that are active in `state`.
+ */
+function activeIds(
+  node: StateNodeDefinition,
+  state: StateValue,
+): Array<string> {
+  if (typeof state === "string") {
+    const child = node.states[state];
+    return child ? [child.id] : [];
+  }
+
+  return Object.entries(state).flatMap(([key, value]) => {
+    const child = node.states[key];
+    return child ? [child.id, ...activeIds(child, value)] : [];
+  });
+}
+
+function mermaidId(id: string) {
+  return id.replace(/\W/g, "_");
+}
+
+function toMermaid(root: StateNodeDefinition, active: Set<string>) {
+  const lines = ["stateDiagram-v2"];
+
+  const renderChildren = (node: StateNodeDefinition, indent: string) => {
+    const children = Object.values(node.states);
+    if (node.initial && node.states[node.initial]) {
+      lines.push(`${indent}[*] --> ${mermaidId(node.states[node.initial].id)}`);
+    }
+
+    children.forEach((child, i) => {
+      if (node.type === "parallel" && i > 0) {
+        lines.push(`${indent}--`);
+      }
+      renderNode(child, indent);
+    });
+  };
+
+  const renderNode = (node: StateNodeDefinition, indent: string) => {
+    const id = mermaidId(node.id);
+    lines.push(`${indent}state "${node.key}" as ${id}`);
+
+    if (!isLeaf(node)) {
+      lines.push(`${indent}state ${id} {`);
+      renderChildren(node, indent + "  ");
+      lines.push(`${indent}}`);
+    }
+
+    if (node.type === "final") {
+      lines.push(`${indent}${id} --> [*]`);
+    }
+  };
+
+  renderChildren(root, "  ");
+
+  for (const edge of edges(root)) {
+    lines.push(
+      `  ${mermaidId(edge.source)} --> ${mermaidId(edge.target)} : ${
+        edge.label
+      }`,
+    );
+  }
+
+  if (active.size > 0) {
+    lines.push("  classDef current fill:#ffcc80,stroke:#e65100");
+    for (const id of Array.from(active)) {
+      lines.push(`  class ${mermaidId(id)} current`);
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function toDot(root: StateNodeDefinition, active: Set<string>) {
+  const nodes = new Map(walk(root).map((node) => [node.id, node]));
+  const quote = (s: string) => JSON.stringify(s);
+  const cluster = (id: string) => quote(`cluster_${id}`);
+
+  // graphviz edges connect nodes, not clusters, so edges to and from
+  // compound states attach to a leaf and are clipped to the cluster
+  const anchor = (node: StateNodeDefinition): StateNodeDefinition => {
+    if (isLeaf(node)) {
+      return node;
+    }
+    return anchor(
+      node.states[node.initial ?? ""] ?? Object.values(node.states)[0],
+    );
+  };
+
+  const lines = [
+    `digraph ${quote(root.id)} {`,
+    "  compound=true;",
+    "  rankdir=LR;",
+    '  node [shape=box style=rounded fontname="sans-serif"];',
+    '  edge [fontname="sans-serif" fontsize=10];',
+  ];
+
+  const renderChildren = (node: StateNodeDefinition, indent: string) => {
+    if (node.initial && node.states[node.initial]) {
+      const initial = node.states[node.initial];
+      const start = quote(`${node.id}.__initial`);
+      lines.push(`${indent}${start} [shape=point label=""];`);
+      lines.push(
+        `${indent}${start} -> ${quote(anchor(initial).id)}${
+          isLeaf(initial) ? "" : ` [lhead=${cluster(initial.id)}]`
+        };`,
+      );
+    }
+
+    for (const child of Object.values(node.states)) {
+      renderNode(child, indent);
+    }
+  };
+
+  const renderNode = (node: StateNodeDefinition, indent: string) => {
+    const highlight = active.has(node.id);
+    if (isLeaf(node)) {
+      const attrs = [
+        `label=${quote(node.key)}`,
+        ...(node.type === "final" ? ["peripheries=2"] : []),
+        ...(highlight ? ['style="rounded,filled"', 'fillcolor="#ffcc80"'] : []),
+      ];
+      lines.push(`${indent}${quote(node.id)} [${attrs.join(" ")}];`);
+      return;
+    }
+
+    lines.push(`${indent}subgraph ${cluster(node.id)} {`);
+    lines.push(`${indent}  label=${quote(node.key)};`);
+    lines.push(
+      `${indent}  style=${node.type === "parallel" ? "dashed" : "rounded"};`,
+    );
+    if (highlight) {
+      lines.push(`${indent}  color="#e65100";`);
+    }
+    renderChildren(node, indent + "  ");
+    lines.push(`${indent}}`);
+  };
+
+  renderChildren(root, "  ");
+
+  for (const edge of edges(root)) {
+    const source = nodes.get(edge.source);
+    const target = nodes.get(edge.target);
+    if (!source || !target) {
+      continue;
+    }
+
+    const attrs = [
+      `label=${quote(edge.label)}`,
+      ...(!isLeaf(source) && source !== target
+        ? [`ltail=${cluster(source.id)}`]
+        : []),
+      ...(!isLeaf(target) && source !== target
+        ? [`lhead=${cluster(target.id)}`]
+        : []),
+    ];
+    lines.push(
+      `  ${quote(anchor(source).id)} -> ${quote(
+        anchor(target).id,
+      )} [${attrs.join(" ")}];`,
+    );
+  }
+
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+async function renderSvg(dot: string) {
+  const proc = spawn("dot", ["-Tsvg"], { stdio: ["pipe", "pipe", "inherit"] });
+
+  const chunks: Array<Buffer> = [];
+  proc.stdout.on("data", (chunk) => chunks.push(chunk));
+
+  const exitCode = await new Promise<number>((resolve, reject) => {
+    proc.on("error", (err: NodeJS.ErrnoException) => {
+      reject(
+        err.code === "ENOENT"
+          ? new InvalidArgumentError(
+              "rendering SVG requires the Graphviz 'dot' command. Install Graphviz or use --format dot.",
+            )
+          : err,
+      );
+    });
+    proc.on("close", resolve);
+    proc.stdin.end(dot);
+  });
+
+  if (exitCode !== 0) {
+    throw new Error("Graphviz failed to render the diagram");
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * The states, initial states, and transitions of a machine, as comparable
+ * strings. States are identified by their path from the root so that
+ * renaming the machine doesn't change every state.
+ */
+export function machineStructure(machine: { definition: StateNodeDefinition }) {
+  const root = machine.definition;
+  const nodes = walk(root);
+  const rel = (id: string) =>
+    id === root.id
+      ? "(root)"
+      : id.startsWith(`${root.id}.`)
+      ? id.slice(root.id.length + 1)
+      : id;
+
+  return {
+    states: nodes.map((node) => rel(node.id)),
+    initialStates: nodes
+      .filter((node) => node.initial)
+      .map((node) => `${rel(node.id)} -> ${node.initial}`),
+    transitions: edges(root).map(
+      (edge) => `${rel(edge.source)} -[${edge.label}]-> ${rel(edge.target)}`,
+    ),
+  };
+}
+
+/**
+ * Render a machine's statechart. States that are active in `currentState`
+ * are highlighted.
+ */
+export async function visualize(
+  machine: { definition: StateNodeDefinition },
+  format: DiagramFormat,
+  currentState?: StateValue,
+) {
+  const root = machine.definition;
+  const active = new Set(currentState ? activeIds(root, currentState) : []);
+
+  switch (format) {
+    case "mermaid":
+      return toMermaid(root, active);
+    case "dot":
+      return toDot(root, active);
+    case "svg":
+      return renderSvg(toDot(root, active));
+  }
+}